@@ -18,31 +18,85 @@
  * automatically handling payment flows when required.
  */
 
+import { randomUUID } from 'crypto';
 import { LlmAgent as Agent } from 'adk-typescript/agents';
 import { ToolContext } from 'adk-typescript/tools';
 import { LocalWallet } from './src/wallet/Wallet';
-import { x402Utils, PaymentStatus } from 'a2a-x402';
+import {
+  x402Utils,
+  PaymentStatus,
+  SpendingPolicy,
+  SpendingPolicyError,
+  InMemorySpendHistory,
+  FileSpendHistory,
+  networkRegistry,
+  parseMoney,
+  formatAtomicAmount,
+  createPaymentSubmissionMessage,
+  x402Metadata,
+  PaymentRequirements,
+  Message,
+  Task,
+  TextPart,
+  JsonRpcResponse,
+  X402_EXTENSION_URI,
+  A2A_EXTENSIONS_HEADER,
+  checkExtensionActivation,
+} from 'a2a-x402';
 import { logger } from './src/logger';
 
 // --- Client Agent Configuration ---
 
 const MERCHANT_AGENT_URL = process.env.MERCHANT_AGENT_URL || 'http://localhost:10000';
+const PAYMENT_NETWORK = process.env.PAYMENT_NETWORK || 'base-sepolia';
+const MAX_PAYMENT_USDC = process.env.MAX_PAYMENT_USDC || '10';
+const DAILY_BUDGET_USDC = process.env.DAILY_BUDGET_USDC || '50';
+const WEEKLY_BUDGET_USDC = process.env.WEEKLY_BUDGET_USDC;
+const ALLOWED_MERCHANTS = process.env.ALLOWED_MERCHANTS;
+const SPEND_HISTORY_PATH = process.env.SPEND_HISTORY_PATH;
 
 logger.log(`🤖 Client Agent Configuration:
   Merchant URL: ${MERCHANT_AGENT_URL}
+  Max payment: ${MAX_PAYMENT_USDC} USDC
+  Daily budget: ${DAILY_BUDGET_USDC} USDC
 `);
 
 // Initialize wallet
 const wallet = new LocalWallet();
 const x402 = new x402Utils();
 
+// Spending limits checked before any payment is signed. The user's explicit
+// confirmation is the human approval, so no approval threshold is set here.
+const usdc = networkRegistry.getDefaultAsset(PAYMENT_NETWORK);
+const toUsdcUnits = (amount: string) => parseMoney(amount, usdc.decimals, usdc.symbol).amount;
+const spendingPolicy = new SpendingPolicy(
+  {
+    limits: [{
+      asset: usdc.address,
+      network: PAYMENT_NETWORK,
+      maxPerPayment: toUsdcUnits(MAX_PAYMENT_USDC),
+      dailyBudget: toUsdcUnits(DAILY_BUDGET_USDC),
+      weeklyBudget: WEEKLY_BUDGET_USDC ? toUsdcUnits(WEEKLY_BUDGET_USDC) : undefined,
+    }],
+    allowedPayTo: ALLOWED_MERCHANTS ? ALLOWED_MERCHANTS.split(',').map((a) => a.trim()) : undefined,
+    allowedNetworks: [PAYMENT_NETWORK],
+  },
+  {
+    history: SPEND_HISTORY_PATH ? new FileSpendHistory(SPEND_HISTORY_PATH) : new InMemorySpendHistory(),
+  }
+);
+
 // State management
 interface AgentState {
-  sessionId?: string;
+  /**
+   * A2A context of the conversation with the merchant, assigned by its first reply
+   */
+  contextId?: string;
   pendingPayment?: {
     agentUrl: string;
     agentName: string;
     requirements: any;
+    selected: PaymentRequirements;
     taskId?: string;
     contextId?: string;
   };
@@ -50,38 +104,46 @@ interface AgentState {
 
 const state: AgentState = {};
 
-// Helper to ensure we have a session
-async function ensureSession(): Promise<string> {
-  if (state.sessionId) {
-    return state.sessionId;
+/**
+ * Send a message to the merchant with A2A JSON-RPC message/send and return the resulting task
+ */
+async function sendA2AMessage(message: Message): Promise<Task> {
+  const response = await fetch(MERCHANT_AGENT_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      // Merchants that require x402 refuse requests that do not activate it
+      [A2A_EXTENSIONS_HEADER]: X402_EXTENSION_URI,
+    },
+    body: JSON.stringify({
+      jsonrpc: '2.0',
+      id: randomUUID(),
+      method: 'message/send',
+      params: { message },
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`The merchant server returned HTTP ${response.status}`);
   }
 
-  // Create a new session
-  try {
-    const response = await fetch(`${MERCHANT_AGENT_URL}/apps/x402_merchant_agent/users/client-user/sessions`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({}),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to create session: ${response.status}`);
-    }
+  if (!checkExtensionActivation(Object.fromEntries(response.headers))) {
+    logger.warn('⚠️ The merchant did not confirm the x402 extension; its replies may not carry payment metadata');
+  }
 
-    const session = await response.json() as any;
-    state.sessionId = session.id;
-    logger.log(`✅ Created new session: ${state.sessionId}`);
-    return state.sessionId!;
-  } catch (error) {
-    logger.error('❌ Failed to create session:', error);
-    throw error;
+  const body = await response.json() as JsonRpcResponse;
+  if (body.error) {
+    throw new Error(`The merchant refused the message (${body.error.code}): ${body.error.message}`);
   }
+  const task = body.result as Task;
+  // Later messages continue the same conversation
+  state.contextId = task.contextId;
+  return task;
 }
 
 // --- Tool Functions ---
 
 /**
- * Send a message to a remote merchant agent using ADK protocol
+ * Send a message to the merchant agent over A2A JSON-RPC
  */
 async function sendMessageToMerchant(
   params: Record<string, any>,
@@ -93,72 +155,48 @@ async function sendMessageToMerchant(
   logger.log(`\n📤 Sending message to merchant: "${message}"`);
 
   try {
-    // Ensure we have a session
-    const sessionId = await ensureSession();
-
-    // Make real HTTP request to merchant server using ADK /run endpoint
-    const response = await fetch(`${MERCHANT_AGENT_URL}/run`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        appName: 'x402_merchant_agent',
-        userId: 'client-user',
-        sessionId: sessionId,
-        newMessage: {
-          role: 'user',
-          parts: [{ text: String(message) }],
-        },
-      }),
+    const task = await sendA2AMessage({
+      messageId: randomUUID(),
+      contextId: state.contextId,
+      role: 'user',
+      parts: [{ kind: 'text', text: String(message) }],
     });
+    logger.log(`✅ Merchant task ${task.id} is ${task.status.state}`);
+    logger.log('📊 Task:', JSON.stringify(task, null, 2));
+
+    // A payment-required task carries the accepted payment options in its x402 metadata
+    const paymentReqs = x402.getPaymentStatus(task) === PaymentStatus.PAYMENT_REQUIRED
+      ? x402.getPaymentRequirements(task)
+      : null;
+    if (paymentReqs) {
+      logger.log('🎯 Found payment requirements!');
+      logger.log(`Payment requirements data:`, JSON.stringify(paymentReqs, null, 2));
+
+      let paymentOption: PaymentRequirements;
+      try {
+        paymentOption = await wallet.selectPaymentOption(paymentReqs);
+      } catch (error) {
+        logger.error('❌ No payable option:', error);
+        return `The merchant requested payment, but none of the ${paymentReqs.accepts.length} offered option(s) can be paid from this wallet: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      const price = BigInt(paymentOption.maxAmountRequired);
+      const priceUSDC = formatAtomicAmount(price, usdc.decimals);
+      const productName = paymentOption.extra?.product?.name || 'product';
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      logger.error(`❌ Merchant server error (${response.status}): ${errorText}`);
-      return `Sorry, I couldn't connect to the merchant. The server returned an error: ${response.status}. Make sure the merchant server is running at ${MERCHANT_AGENT_URL}`;
-    }
+      // Store payment requirements in state
+      state.pendingPayment = {
+        agentUrl: MERCHANT_AGENT_URL,
+        agentName: 'merchant_agent',
+        requirements: paymentReqs,
+        selected: paymentOption,
+        // The merchant keys its payment requirements by this task
+        taskId: task.id,
+        contextId: task.contextId,
+      };
+
+      logger.log(`💰 Payment required: ${priceUSDC} USDC for ${productName}`);
 
-    const events = await response.json() as any[];
-    logger.log(`✅ Received ${events.length} events from merchant`);
-    logger.log('📊 All events:', JSON.stringify(events, null, 2));
-
-    // ADK returns an array of events - process them
-    // CRITICAL: Check ALL events for payment requirements FIRST, then process text responses
-    // This is because the merchant sends both the agent's text response AND the payment requirement
-
-    // First pass: Look for payment requirements in ANY event
-    for (const event of events) {
-      logger.log(`\n🔍 Processing event (pass 1 - payment check):
-        - author: ${event.author || 'unknown'}
-        - errorCode: ${event.errorCode || 'none'}
-        - has content: ${!!event.content}
-        - has errorData: ${!!event.errorData}`);
-
-      // Check if this is an x402 payment exception
-      if (event.errorCode && event.errorCode === 'x402_payment_required') {
-        logger.log('🎯 Found payment requirement event!');
-        const paymentReqs = event.errorData?.paymentRequirements;
-        logger.log(`Payment requirements data:`, JSON.stringify(paymentReqs, null, 2));
-
-        if (paymentReqs && paymentReqs.accepts && paymentReqs.accepts.length > 0) {
-          const paymentOption = paymentReqs.accepts[0];
-          const price = BigInt(paymentOption.maxAmountRequired);
-          const priceUSDC = (Number(price) / 1_000_000).toFixed(6);
-          const productName = paymentOption.extra?.product?.name || 'product';
-
-          // Store payment requirements in state
-          state.pendingPayment = {
-            agentUrl: MERCHANT_AGENT_URL,
-            agentName: 'merchant_agent',
-            requirements: paymentReqs,
-            taskId: event.invocationId,
-            contextId: event.invocationId,
-          };
-
-          logger.log(`💰 Payment required: ${priceUSDC} USDC for ${productName}`);
-
-          return `The merchant agent responded! They're selling ${productName} for ${priceUSDC} USDC.
+      return `The merchant agent responded! They're selling ${productName} for ${priceUSDC} USDC.
 
 **Payment Details:**
 - Product: ${productName}
@@ -167,28 +205,15 @@ async function sendMessageToMerchant(
 - Payment Token: ${paymentOption.extra?.name || 'USDC'}
 
 Would you like to proceed with this payment?`;
-        }
-      }
     }
 
-    // Second pass: No payment requirements found, look for regular text responses
-    logger.log('\n📝 No payment requirements found, checking for text responses...');
-    for (const event of events) {
-      if (event.content && event.content.parts) {
-        const textParts = event.content.parts
-          .filter((p: any) => p.text)
-          .map((p: any) => p.text)
-          .join('\n');
-        logger.log(`Text content: "${textParts}"`);
-        if (textParts) {
-          logger.log('✅ Returning text content from merchant');
-          return `Merchant says: ${textParts}`;
-        }
-      }
+    const text = getMessageText(task.status.message);
+    if (text) {
+      logger.log('✅ Returning text content from merchant');
+      return `Merchant says: ${text}`;
     }
 
-    // If we got a response but no payment requirements or message, return generic success
-    return `I contacted the merchant, but received an unexpected response format. Events: ${JSON.stringify(events)}`;
+    return `I contacted the merchant, but the reply had no text. The task is ${task.status.state}.`;
 
   } catch (error) {
     logger.error('❌ Failed to contact merchant:', error);
@@ -202,6 +227,16 @@ Would you like to proceed with this payment?`;
   }
 }
 
+/**
+ * Collect the text the merchant's agent replied with
+ */
+function getMessageText(message?: Message): string {
+  return (message?.parts || [])
+    .filter((part): part is TextPart => part.kind === 'text')
+    .map((part) => part.text)
+    .join('\n');
+}
+
 /**
  * Confirm and sign a pending payment
  */
@@ -215,105 +250,90 @@ async function confirmPayment(
 
   logger.log('\n💰 User confirmed payment. Processing...');
 
+  const pending = state.pendingPayment;
+  if (!pending.taskId) {
+    state.pendingPayment = undefined;
+    return 'The merchant did not identify the task to pay for, so the payment cannot be submitted.';
+  }
+
+  let spendId: string | undefined;
+  let submitted = false;
   try {
-    const paymentOption = state.pendingPayment.requirements.accepts[0];
-    const tokenAddress = paymentOption.asset;
-    const merchantAddress = paymentOption.payTo;
+    // Pay exactly the option that was shown to the user
+    const paymentOption = pending.selected;
     const amount = BigInt(paymentOption.maxAmountRequired);
     const productName = paymentOption.extra?.product?.name || 'product';
 
-    // Step 1: Sign the payment with wallet (this also handles approval)
-    const signedPayload = await wallet.signPayment(state.pendingPayment.requirements);
-
-    logger.log('✅ Payment signed successfully!');
-    logger.log(`   Signature: ${signedPayload.payload.signature.substring(0, 20)}...`);
-
-    // Step 2: Execute the actual token transfer
-    const transferResult = await wallet.executePayment(tokenAddress, merchantAddress, amount);
-
-    if (!transferResult.success) {
-      return `Payment transfer failed: ${transferResult.error}`;
+    // Step 1: Check spending limits and record the spend until the merchant settles it
+    try {
+      spendId = await spendingPolicy.authorize(paymentOption);
+    } catch (error) {
+      if (error instanceof SpendingPolicyError) {
+        logger.log(`🛑 Payment blocked by spending policy: ${error.message}`);
+        state.pendingPayment = undefined;
+        return `Payment blocked by your spending policy: ${error.message}`;
+      }
+      throw error;
     }
 
-    logger.log(`✅ Transfer successful: ${transferResult.txHash}`);
-
-    // Step 3: Send payment proof back to merchant server
-    logger.log('\n📤 Sending payment proof to merchant...');
+    // Step 2: Sign an EIP-3009 authorization; the merchant's facilitator settles it
+    const signedPayload = await wallet.signPayment({
+      ...pending.requirements,
+      accepts: [paymentOption],
+    });
 
-    try {
-      const paymentResponse = await fetch(MERCHANT_AGENT_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: `I want to buy ${productName}`, // Original request
-          taskId: state.pendingPayment.taskId,
-          contextId: state.pendingPayment.contextId,
-          message: {
-            messageId: `msg-${Date.now()}`,
-            role: 'user',
-            parts: [{ kind: 'text', text: `I want to buy ${productName}` }],
-            metadata: {
-              x402: {
-                paymentStatus: 'payment-submitted',
-                paymentPayload: signedPayload,
-              },
-            },
-          },
-        }),
-      });
-
-      if (!paymentResponse.ok) {
-        logger.error(`❌ Failed to send payment to merchant: ${paymentResponse.status}`);
-        return `⚠️ Payment was sent on-chain but merchant server returned error: ${paymentResponse.status}. Transaction: ${transferResult.txHash}`;
-      }
+    logger.log('✅ Payment signed successfully!');
+    logger.log(`   Signature: ${signedPayload.payload.signature.substring(0, 20)}...`);
 
-      const paymentData = await paymentResponse.json() as any;
-      logger.log('✅ Merchant received payment:', JSON.stringify(paymentData, null, 2));
-
-      // Check for confirmation in the response
-      let merchantConfirmation = '';
-      if (paymentData.events && paymentData.events.length > 0) {
-        for (const event of paymentData.events) {
-          if (event.status?.message) {
-            const msg = event.status.message;
-            if (msg.parts && Array.isArray(msg.parts)) {
-              const textParts = msg.parts
-                .filter((p: any) => p.kind === 'text')
-                .map((p: any) => p.text)
-                .join('\n');
-              if (textParts) {
-                merchantConfirmation = `\n\n**Merchant Response:**\n${textParts}`;
-              }
-            }
-          }
-        }
+    // Step 3: Submit the authorization on the task that asked for payment
+    logger.log('\n📤 Submitting payment authorization to merchant...');
+    const submission = createPaymentSubmissionMessage(
+      pending.taskId,
+      signedPayload,
+      `I want to buy ${productName}`
+    );
+
+    submitted = true;
+    const task = await sendA2AMessage(submission);
+    logger.log('✅ Merchant processed payment:', JSON.stringify(task, null, 2));
+
+    // Step 4: Read the outcome from the x402 metadata of the returned task
+    const paymentStatus = x402.getPaymentStatus(task);
+    const receipt = x402.getLatestReceipt(task);
+    const errorCode: string | undefined = task.status.message?.metadata?.[x402Metadata.ERROR_KEY];
+    const merchantText = getMessageText(task.status.message);
+
+    state.pendingPayment = undefined;
+    const merchantConfirmation = merchantText ? `\n\n**Merchant Response:**\n${merchantText}` : '';
+
+    if (paymentStatus !== PaymentStatus.PAYMENT_COMPLETED) {
+      if (paymentStatus === PaymentStatus.PAYMENT_FAILED || paymentStatus === PaymentStatus.PAYMENT_REJECTED) {
+        await spendingPolicy.release(spendId);
       }
+      const reason = receipt?.errorReason || errorCode || paymentStatus || 'unknown status';
+      logger.error(`❌ Payment not completed: ${reason}`);
+      return `❌ The merchant did not complete the payment: ${reason}${merchantConfirmation}`;
+    }
 
-      const amountUSDC = (Number(amount) / 1_000_000).toFixed(6);
-      const result = `✅ Payment completed successfully!
+    const amountUSDC = formatAtomicAmount(amount, usdc.decimals);
+    const explorerUrl = receipt?.transaction
+      ? networkRegistry.getTransactionUrl(paymentOption.network, receipt.transaction)
+      : undefined;
+    return `✅ Payment completed successfully!
 
 **Transaction Details:**
 - Product: ${productName}
 - Amount: ${amountUSDC} USDC (${amount.toString()} atomic units)
-- Token: ${tokenAddress}
-- Merchant: ${merchantAddress}
-- Transaction: ${transferResult.txHash}
-- View on BaseScan: https://sepolia.basescan.org/tx/${transferResult.txHash}${merchantConfirmation}`;
-
-      // Clear pending payment
-      state.pendingPayment = undefined;
-
-      return result;
-
-    } catch (error) {
-      logger.error('❌ Failed to notify merchant:', error);
-      return `⚠️ Payment was sent on-chain successfully but couldn't notify merchant: ${error instanceof Error ? error.message : String(error)}\n\nTransaction: ${transferResult.txHash}\nView on BaseScan: https://sepolia.basescan.org/tx/${transferResult.txHash}`;
-    }
+- Token: ${paymentOption.asset}
+- Merchant: ${paymentOption.payTo}
+- Transaction: ${receipt?.transaction || 'not reported'}${explorerUrl ? `\n- View on explorer: ${explorerUrl}` : ''}${merchantConfirmation}`;
 
   } catch (error) {
     logger.error('❌ Payment processing failed:', error);
+    // Once submitted, the merchant may have settled the payment
+    if (spendId && !submitted) {
+      await spendingPolicy.release(spendId);
+    }
     return `Payment processing failed: ${error instanceof Error ? error.message : String(error)}`;
   }
 }
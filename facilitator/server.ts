@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * x402 Facilitator Server
+ *
+ * Serves /verify, /settle and /supported for merchants using
+ * DefaultFacilitatorClient, backed by a configurable chain backend.
+ */
+
+import { createServer } from 'http';
+import { ChainBackend } from './src/backends/ChainBackend';
+import { EvmChainBackend } from './src/backends/EvmChainBackend';
+import { SignatureOnlyBackend } from './src/backends/SignatureOnlyBackend';
+import { createFacilitatorHandler } from './src/handler';
+
+const PORT = process.env.PORT || 4022;
+const CHAIN_BACKEND = process.env.CHAIN_BACKEND || 'evm';
+const NETWORKS = (process.env.NETWORKS || 'base-sepolia')
+  .split(',')
+  .map((network) => network.trim())
+  .filter(Boolean);
+
+/**
+ * RPC URL of a network from RPC_URL_<NETWORK>, e.g. RPC_URL_BASE_SEPOLIA
+ */
+function rpcUrlFor(network: string): string {
+  const variable = `RPC_URL_${network.toUpperCase().replace(/-/g, '_')}`;
+  const url = process.env[variable];
+  if (!url) {
+    throw new Error(`${variable} is not set`);
+  }
+  return url;
+}
+
+function createBackend(): ChainBackend {
+  switch (CHAIN_BACKEND) {
+    case 'evm': {
+      const privateKey = process.env.SETTLEMENT_PRIVATE_KEY;
+      if (!privateKey) {
+        throw new Error('SETTLEMENT_PRIVATE_KEY is required for CHAIN_BACKEND=evm');
+      }
+      return new EvmChainBackend({
+        rpcUrls: Object.fromEntries(NETWORKS.map((network) => [network, rpcUrlFor(network)])),
+        privateKey,
+        confirmations: process.env.CONFIRMATIONS ? Number(process.env.CONFIRMATIONS) : undefined,
+      });
+    }
+    case 'signature-only':
+      return new SignatureOnlyBackend(NETWORKS);
+    default:
+      throw new Error(`Unknown CHAIN_BACKEND "${CHAIN_BACKEND}", expected "evm" or "signature-only"`);
+  }
+}
+
+const backend = createBackend();
+const apiKey = process.env.FACILITATOR_API_KEY || undefined;
+
+const server = createServer(createFacilitatorHandler(backend, { apiKey }));
+
+server.listen(PORT, () => {
+  console.log(`✅ x402 facilitator running at http://localhost:${PORT}`);
+  console.log(`   Backend: ${CHAIN_BACKEND}`);
+  console.log(`   Networks: ${backend.networks.join(', ')}`);
+  console.log(`   API key: ${apiKey ? 'required' : 'not required'}`);
+});
+
+// Graceful shutdown
+process.on('SIGINT', () => {
+  console.log('\n👋 Shutting down facilitator...');
+  server.close(() => {
+    console.log('✅ Facilitator stopped');
+    process.exit(0);
+  });
+});
@@ -0,0 +1,26 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Chain Backend - What the facilitator server verifies and settles with
+ */
+
+import { FacilitatorClient } from 'a2a-x402';
+
+/**
+ * A FacilitatorClient that also declares which networks it can reach.
+ * The server only routes "exact" payments on these networks to it.
+ */
+export interface ChainBackend extends FacilitatorClient {
+  readonly networks: string[];
+}
@@ -0,0 +1,53 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * EVM Chain Backend - Verifies EIP-3009 authorizations and settles them on-chain
+ */
+
+import { EvmFacilitatorClient } from 'a2a-x402';
+import { ChainBackend } from './ChainBackend';
+
+export interface EvmChainBackendOptions {
+  /**
+   * JSON-RPC endpoint per network name, e.g. { "base-sepolia": "https://..." }.
+   * Every network must be known to the network registry.
+   */
+  rpcUrls: Record<string, string>;
+  /**
+   * Key of the account that submits settlements and pays gas on every network
+   */
+  privateKey: string;
+  /**
+   * Blocks to wait for after the settlement transaction is mined (defaults to 1)
+   */
+  confirmations?: number;
+  /**
+   * Clock used for the validAfter/validBefore window, in unix seconds
+   */
+  now?: () => number;
+}
+
+/**
+ * The library's EvmFacilitatorClient, serving the networks it has an RPC URL for.
+ * Nodes that cannot be reached raise FacilitatorUnavailableError, which the
+ * server answers with 500.
+ */
+export class EvmChainBackend extends EvmFacilitatorClient implements ChainBackend {
+  readonly networks: string[];
+
+  constructor(options: EvmChainBackendOptions) {
+    super(options);
+    this.networks = this.getNetworks();
+  }
+}
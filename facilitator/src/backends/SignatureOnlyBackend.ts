@@ -0,0 +1,49 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Signature-Only Backend - Verifies payloads without touching a chain
+ */
+
+import {
+  LocalFacilitatorClient,
+  LocalFacilitatorOptions,
+  PaymentPayload,
+  PaymentRequirements,
+  VerifyResponse,
+  SettleResponse,
+} from 'a2a-x402';
+import { ChainBackend } from './ChainBackend';
+
+/**
+ * Runs the offline EIP-3009 checks of LocalFacilitatorClient and reports
+ * valid payloads as settled without broadcasting anything. Meant for
+ * integration tests against localhost, where no RPC node or funds exist.
+ */
+export class SignatureOnlyBackend implements ChainBackend {
+  readonly networks: string[];
+  private client: LocalFacilitatorClient;
+
+  constructor(networks: string[], options?: LocalFacilitatorOptions) {
+    this.networks = networks;
+    this.client = new LocalFacilitatorClient(options);
+  }
+
+  verify(payload: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    return this.client.verify(payload, requirements);
+  }
+
+  settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+    return this.client.settle(payload, requirements);
+  }
+}
@@ -0,0 +1,268 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Facilitator HTTP API - the endpoints DefaultFacilitatorClient calls
+ *
+ *   POST /verify     {x402Version, paymentPayload, paymentRequirements} → VerifyResponse
+ *   POST /settle     {x402Version, paymentPayload, paymentRequirements} → SettleResponse
+ *   GET  /supported  → SupportedResponse
+ *   GET  /health
+ *
+ * A payment the backend refuses is still a 200 with isValid/success false;
+ * non-2xx statuses mean the request itself was not understood or not allowed.
+ *
+ * /settle is idempotent per authorization and requirements: a repeat of a
+ * settlement that is in flight or succeeded gets the same response instead of
+ * a second submission, so clients can safely retry after a timeout.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  SupportedResponse,
+} from 'a2a-x402';
+import { ChainBackend } from './backends/ChainBackend';
+
+const X402_VERSION = 1;
+const SUPPORTED_SCHEME = 'exact';
+const MAX_BODY_BYTES = 64 * 1024;
+
+export interface FacilitatorHandlerOptions {
+  /**
+   * Bearer token required on /verify and /settle, matching FacilitatorConfig.apiKey
+   */
+  apiKey?: string;
+}
+
+interface FacilitatorRequest {
+  x402Version: number;
+  paymentPayload: PaymentPayload;
+  paymentRequirements: PaymentRequirements;
+}
+
+interface SettlementEntry {
+  response: Promise<SettleResponse>;
+  /**
+   * Unix seconds after which the authorization can no longer settle
+   */
+  validBefore: number;
+}
+
+/**
+ * Identifies one signed authorization settled against one set of terms. The
+ * terms are part of the key so a repeat with other requirements is checked
+ * by the backend instead of being told the earlier settlement covered it.
+ */
+function getSettlementKey(
+  payload: PaymentPayload,
+  requirements: PaymentRequirements
+): string | undefined {
+  const authorization = payload.payload?.authorization;
+  if (!authorization?.from || !authorization?.nonce || !payload.payload.signature) {
+    return undefined;
+  }
+  return [
+    payload.network,
+    authorization.from,
+    authorization.nonce,
+    payload.payload.signature,
+    requirements.scheme,
+    requirements.network,
+    requirements.asset,
+    requirements.payTo,
+    requirements.maxAmountRequired,
+  ]
+    .join(':')
+    .toLowerCase();
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        // Drain the rest so the error response can still be written
+        req.removeAllListeners('data');
+        req.resume();
+        reject(new Error('Request body too large'));
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function parseRequest(body: string): FacilitatorRequest {
+  const parsed = JSON.parse(body);
+  const { paymentPayload, paymentRequirements } = parsed || {};
+  if (!paymentPayload || typeof paymentPayload !== 'object') {
+    throw new Error('paymentPayload is required');
+  }
+  if (!paymentRequirements || typeof paymentRequirements !== 'object') {
+    throw new Error('paymentRequirements is required');
+  }
+  return {
+    x402Version: parsed.x402Version ?? paymentPayload.x402Version,
+    paymentPayload,
+    paymentRequirements,
+  };
+}
+
+/**
+ * Why the request cannot go to the backend, or undefined if it can
+ */
+function unsupportedReason(request: FacilitatorRequest, backend: ChainBackend): string | undefined {
+  const { x402Version, paymentPayload, paymentRequirements } = request;
+  if (x402Version !== X402_VERSION || paymentPayload.x402Version !== X402_VERSION) {
+    return 'invalid_x402_version';
+  }
+  if (paymentRequirements.scheme !== SUPPORTED_SCHEME) {
+    return 'unsupported_scheme';
+  }
+  if (!backend.networks.includes(paymentRequirements.network)) {
+    return 'invalid_network';
+  }
+  return undefined;
+}
+
+/**
+ * Request handler for a facilitator service. Mount it with http.createServer:
+ *
+ *   http.createServer(createFacilitatorHandler(backend, { apiKey })).listen(4022);
+ */
+export function createFacilitatorHandler(
+  backend: ChainBackend,
+  options: FacilitatorHandlerOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => void {
+  const supported: SupportedResponse = {
+    kinds: backend.networks.map((network) => ({
+      x402Version: X402_VERSION,
+      scheme: SUPPORTED_SCHEME,
+      network,
+    })),
+  };
+
+  const settlements = new Map<string, SettlementEntry>();
+
+  /**
+   * Settles through the backend at most once per authorization and
+   * requirements. Failed settlements are forgotten so they can be retried.
+   */
+  const settleOnce = (
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements
+  ): Promise<SettleResponse> => {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [key, entry] of settlements) {
+      if (entry.validBefore <= now) {
+        settlements.delete(key);
+      }
+    }
+
+    const key = getSettlementKey(paymentPayload, paymentRequirements);
+    if (!key) {
+      return backend.settle(paymentPayload, paymentRequirements);
+    }
+    const existing = settlements.get(key);
+    if (existing) {
+      console.log(`♻️  settle ${paymentRequirements.network}: repeated authorization, reusing result`);
+      return existing.response;
+    }
+
+    const response = backend.settle(paymentPayload, paymentRequirements);
+    settlements.set(key, {
+      response,
+      validBefore: Number(paymentPayload.payload.authorization.validBefore) || now,
+    });
+    response.then(
+      (result) => {
+        if (!result.success) {
+          settlements.delete(key);
+        }
+      },
+      () => settlements.delete(key)
+    );
+    return response;
+  };
+
+  return async (req, res) => {
+    const path = (req.url || '/').split('?')[0];
+
+    if (req.method === 'GET' && path === '/health') {
+      sendJson(res, 200, { status: 'ok', service: 'x402-facilitator' });
+      return;
+    }
+    if (req.method === 'GET' && path === '/supported') {
+      sendJson(res, 200, supported);
+      return;
+    }
+    if (req.method !== 'POST' || (path !== '/verify' && path !== '/settle')) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (options.apiKey && req.headers.authorization !== `Bearer ${options.apiKey}`) {
+      sendJson(res, 401, { error: 'Unauthorized' });
+      return;
+    }
+
+    let request: FacilitatorRequest;
+    try {
+      request = parseRequest(await readBody(req));
+    } catch (error) {
+      sendJson(res, 400, { error: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+
+    const { paymentPayload, paymentRequirements } = request;
+    const reason = unsupportedReason(request, backend);
+
+    try {
+      if (path === '/verify') {
+        if (reason) {
+          sendJson(res, 200, { isValid: false, invalidReason: reason });
+          return;
+        }
+        const response = await backend.verify(paymentPayload, paymentRequirements);
+        console.log(`🔍 verify ${paymentRequirements.network}: ${response.isValid ? 'valid' : response.invalidReason}`);
+        sendJson(res, 200, response);
+        return;
+      }
+
+      if (reason) {
+        sendJson(res, 200, {
+          success: false,
+          network: paymentRequirements.network,
+          errorReason: reason,
+        });
+        return;
+      }
+      const response = await settleOnce(paymentPayload, paymentRequirements);
+      console.log(`💸 settle ${paymentRequirements.network}: ${response.success ? response.transaction || 'settled' : response.errorReason}`);
+      sendJson(res, 200, response);
+    } catch (error) {
+      console.error(`❌ ${path} failed:`, error);
+      sendJson(res, 500, { error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+}
@@ -0,0 +1,108 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Wallet } from 'ethers';
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  createPaymentRequirements,
+  processPayment,
+} from 'a2a-x402';
+import { createFacilitatorHandler } from '../src/handler';
+import { SignatureOnlyBackend } from '../src/backends/SignatureOnlyBackend';
+
+/**
+ * Signature-only backend that counts the settlements it is asked for
+ */
+class CountingBackend extends SignatureOnlyBackend {
+  settleCalls = 0;
+
+  settle(payload: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+    this.settleCalls++;
+    return super.settle(payload, requirements);
+  }
+}
+
+describe('POST /settle', () => {
+  const backend = new CountingBackend(['base-sepolia']);
+  let server: Server;
+  let baseUrl: string;
+  let requirements: PaymentRequirements;
+  let payload: PaymentPayload;
+
+  before(async () => {
+    // The handler's request log would interleave with the test report
+    mock.method(console, 'log', () => undefined);
+    server = createServer(createFacilitatorHandler(backend));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    requirements = await createPaymentRequirements({
+      price: '$0.01',
+      payToAddress: Wallet.createRandom().address,
+      resource: '/content',
+      network: 'base-sepolia',
+    });
+    payload = await processPayment(requirements, Wallet.createRandom());
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function post(path: string, paymentRequirements: PaymentRequirements): Promise<any> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ x402Version: 1, paymentPayload: payload, paymentRequirements }),
+    });
+    assert.equal(response.status, 200);
+    return response.json();
+  }
+
+  it('settles a repeated authorization only once', async () => {
+    const first = await post('/settle', requirements);
+    const second = await post('/settle', requirements);
+    assert.equal(first.success, true);
+    assert.deepEqual(second, first);
+    assert.equal(backend.settleCalls, 1);
+  });
+
+  it('does not reuse a settlement for different requirements', async () => {
+    const other: PaymentRequirements = {
+      ...requirements,
+      payTo: Wallet.createRandom().address,
+      maxAmountRequired: '999999999',
+    };
+
+    const verify = await post('/verify', other);
+    assert.equal(verify.isValid, false);
+    assert.equal(verify.invalidReason, 'invalid_exact_evm_payload_recipient_mismatch');
+
+    const settle = await post('/settle', other);
+    assert.equal(settle.success, false);
+    assert.equal(settle.errorReason, 'invalid_exact_evm_payload_recipient_mismatch');
+    assert.equal(backend.settleCalls, 2);
+  });
+
+  it('does not reuse a settlement for a higher amount', async () => {
+    const settle = await post('/settle', { ...requirements, maxAmountRequired: '999999999' });
+    assert.equal(settle.success, false);
+    assert.equal(settle.errorReason, 'invalid_exact_evm_payload_authorization_value');
+  });
+});
@@ -20,13 +20,24 @@
  */
 
 import { createServer } from 'http';
+import { randomUUID } from 'crypto';
 import { wrappedMerchantAgent, lastPaymentException, clearLastPaymentException } from './wrapped-agent';
 import { MerchantServerExecutor } from './src/executor/MerchantServerExecutor';
 import {
   x402PaymentRequiredException,
-  PaymentStatus,
-  x402Utils,
   TaskState,
+  Task,
+  TextPart,
+  RequestContext,
+  EventQueue,
+  FilePaymentRequirementsStore,
+  FileNonceLedger,
+  FileTaskStore,
+  SettlementMode,
+  createA2AHandler,
+  createX402AgentCard,
+  A2A_EXTENSIONS_HEADER,
+  X402_EXTENSION_URI,
 } from 'a2a-x402';
 // Import directly from the compiled files, bypassing package.json exports
 // to avoid path resolution issues in Docker
@@ -37,7 +48,7 @@ const { InMemoryArtifactService } = require(path.resolve('/node_modules/adk-type
 const { InMemoryMemoryService } = require(path.resolve('/node_modules/adk-typescript/dist/memory'));
 
 const PORT = process.env.PORT || 10000;
-const utils = new x402Utils();
+const AGENT_URL = process.env.AGENT_URL || `http://localhost:${PORT}`;
 
 // Create ADK services for proper session management
 const sessionService = new InMemorySessionService();
@@ -53,61 +64,119 @@ const runner = new Runner({
   memoryService,
 });
 
-// AgentExecutor adapter that uses ADK Runner
+// AgentExecutor adapter that uses ADK Runner; one ADK session per A2A context
 class AgentExecutorAdapter {
-  async execute(context: any, eventQueue: any): Promise<void> {
-    try {
-      console.log('\n=== AgentExecutorAdapter Debug ===');
-      console.log('Context ID:', context.contextId);
-      console.log('Message:', JSON.stringify(context.message, null, 2));
-
-      clearLastPaymentException(); // Clear any previous exception
-
-      // Use ADK Runner to execute the agent with proper session management
-      for await (const event of runner.runAsync({
-        userId: 'client-user',
-        sessionId: context.contextId,
-        newMessage: context.message,
-      })) {
-        await eventQueue.enqueueEvent({
-          id: context.taskId,
-          status: {
-            state: 'input-required',
-            message: event,
-          },
-        });
+  async execute(context: RequestContext, eventQueue: EventQueue): Promise<void> {
+    console.log('\n=== AgentExecutorAdapter Debug ===');
+    console.log('Task ID:', context.taskId);
+    console.log('Context ID:', context.contextId);
+    console.log('Message:', JSON.stringify(context.message, null, 2));
+
+    clearLastPaymentException(); // Clear any previous exception
+
+    const task: Task = context.currentTask || {
+      id: context.taskId,
+      contextId: context.contextId,
+      status: { state: TaskState.SUBMITTED },
+    };
+    task.status = { state: TaskState.WORKING };
+    await eventQueue.enqueueEvent(task);
+
+    // Use ADK Runner to execute the agent with proper session management
+    const replies: string[] = [];
+    for await (const event of runner.runAsync({
+      userId: 'client-user',
+      sessionId: context.contextId,
+      newMessage: {
+        role: 'user',
+        // The agent reads text; file and data parts are not passed on
+        parts: context.message.parts
+          .filter((part): part is TextPart => part.kind === 'text')
+          .map((part) => ({ text: part.text })),
+      },
+    })) {
+      const text = (event.content?.parts || [])
+        .filter((part: any) => part.text)
+        .map((part: any) => part.text)
+        .join('\n');
+      if (text) {
+        replies.push(text);
       }
+    }
 
-      // After execution, check if a payment exception was caught
-      if (lastPaymentException) {
-        console.log('💳 Found payment exception after execution, re-throwing...');
-        throw lastPaymentException;
-      }
-    } catch (error) {
-      // If it's a payment exception, re-throw so executor can catch it
-      if (error instanceof x402PaymentRequiredException) {
-        throw error;
-      }
-      // Other errors get logged
-      console.error('Agent execution error:', error);
-      throw error;
+    // After execution, re-throw a caught payment exception so the executor can request payment
+    if (lastPaymentException) {
+      console.log('💳 Found payment exception after execution, re-throwing...');
+      throw lastPaymentException as x402PaymentRequiredException;
     }
+
+    // The same task object carries the reply and, once settled, the payment receipt
+    task.status = {
+      state: TaskState.COMPLETED,
+      message: {
+        messageId: randomUUID(),
+        taskId: task.id,
+        contextId: task.contextId,
+        role: 'agent',
+        parts: [{ kind: 'text', text: replies.join('\n') }],
+      },
+    };
+    await eventQueue.enqueueEvent(task);
   }
 }
 
 // Wrap agent with x402 payment executor
 const agentAdapter = new AgentExecutorAdapter();
-const paymentExecutor = new MerchantServerExecutor(agentAdapter as any);
+// Persist pending payment requirements and used nonces when paths are configured
+const requirementsStorePath = process.env.PAYMENT_REQUIREMENTS_STORE_PATH;
+const nonceLedgerPath = process.env.NONCE_LEDGER_PATH;
+// Clients that do not activate x402 are served until a request needs payment
+const x402Config = { required: false };
+const paymentExecutor = new MerchantServerExecutor(agentAdapter, x402Config, undefined, {
+  requirementsStore: requirementsStorePath
+    ? new FilePaymentRequirementsStore(requirementsStorePath)
+    : undefined,
+  nonceLedger: nonceLedgerPath ? new FileNonceLedger(nonceLedgerPath) : undefined,
+  settlementMode: process.env.SETTLEMENT_MODE as SettlementMode | undefined,
+  bufferDelegateEvents: process.env.BUFFER_UNTIL_SETTLED === 'true',
+  // Requirements and receipts also travel as DataParts, for A2A clients that ignore metadata
+  dataParts: true,
+});
+
+const agentCard = createX402AgentCard(
+  'x402 Merchant Agent',
+  'Sells any product for USDC using the x402 payment protocol.',
+  AGENT_URL,
+  '1.0.0',
+  [{
+    id: 'buy_product',
+    name: 'Buy a product',
+    description: 'Quotes a price in USDC for any product and completes the order once paid.',
+    tags: ['commerce', 'x402'],
+    examples: ['I want to buy a banana'],
+  }],
+  true,
+  x402Config.required
+);
+// Streaming lets clients follow the payment through message/stream as it progresses.
+// Tasks, with their payment history, survive restarts when a store path is configured.
+const taskStorePath = process.env.TASK_STORE_PATH;
+const a2aHandler = createA2AHandler(paymentExecutor, {
+  agentCard,
+  streaming: true,
+  taskStore: taskStorePath ? new FileTaskStore(taskStorePath) : undefined,
+});
 
 console.log('🚀 Starting x402 Merchant Agent Server...');
 console.log(`🌐 Using default facilitator (https://x402.org/facilitator)`);
 
 // Create HTTP server
-const server = createServer(async (req, res) => {
+const server = createServer((req, res) => {
   // Set CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-A2A-Extensions');
+  res.setHeader('Access-Control-Expose-Headers', 'X-A2A-Extensions');
 
   // Health check endpoint
   if (req.method === 'GET' && req.url === '/health') {
@@ -127,128 +196,20 @@ const server = createServer(async (req, res) => {
     return;
   }
 
-  if (req.method !== 'POST') {
-    res.writeHead(405, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ error: 'Method not allowed' }));
-    return;
-  }
-
-  // Read request body
-  let body = '';
-  req.on('data', chunk => body += chunk);
-
-  req.on('end', async () => {
-    try {
-      const request = JSON.parse(body);
-
-      console.log('\n=== Received request ===');
-      console.log('URL:', req.url);
-      console.log('Request body:', JSON.stringify(request, null, 2));
-
-      // Support ADK /run endpoint format
-      if (req.url === '/run' && request.newMessage) {
-        // ADK format: { appName, userId, sessionId, newMessage: { role, parts } }
-        const context: any = {
-          taskId: `task-${Date.now()}`,
-          contextId: request.sessionId || `context-${Date.now()}`,
-          message: request.newMessage,
-        };
-
-        const events: any[] = [];
-        const eventQueue = {
-          enqueueEvent: async (event: any) => {
-            console.log('Event enqueued:', JSON.stringify(event, null, 2));
-            events.push(event);
-          },
-        };
-
-        // Execute through payment executor
-        await paymentExecutor.execute(context, eventQueue);
-
-        // Transform events for ADK response format
-        const adkEvents = events.map(e => {
-          // Check for payment requirements in the message metadata (x402 format)
-          const paymentReqs = e.status?.message?.metadata?.['x402.payment.required'];
-          if (e.status?.state === 'input-required' && paymentReqs) {
-            // Transform x402 payment exception to ADK error event format
-            console.log('💳 Transforming payment requirement to ADK format');
-            return {
-              invocationId: context.taskId,
-              errorCode: 'x402_payment_required',
-              errorData: {
-                paymentRequirements: paymentReqs,
-              },
-              content: {
-                role: 'model',
-                parts: [{
-                  text: paymentReqs.error || 'Payment required'
-                }],
-              },
-            };
-          }
-          // Regular event - transform to ADK format
-          return e.status?.message || e;
-        });
-
-        // Return ADK-compatible response (array of events)
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify(adkEvents));
-        return;
-      }
-
-      // Legacy format support
-      const context: any = {
-        taskId: request.taskId || `task-${Date.now()}`,
-        contextId: request.contextId || `context-${Date.now()}`,
-        message: request.message || {
-          messageId: `msg-${Date.now()}`,
-          role: 'user',
-          parts: [{ text: request.text || request.input || '' }],
-        },
-      };
-
-      const events: any[] = [];
-      const eventQueue = {
-        enqueueEvent: async (event: any) => {
-          events.push(event);
-        },
-      };
-
-      // Execute through payment executor
-      await paymentExecutor.execute(context, eventQueue);
-
-      // Check if any events contain payment requirements
-      const hasPaymentRequired = events.some(e =>
-        e.status?.state === 'payment-required' ||
-        e.status?.paymentRequirements
-      );
-
-      // Return response
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        success: true,
-        events,
-        taskId: context.taskId,
-        paymentRequired: hasPaymentRequired,
-      }));
-
-    } catch (error) {
-      console.error('Request error:', error);
-      res.writeHead(500, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({
-        error: error instanceof Error ? error.message : 'Internal server error',
-      }));
-    }
-  });
+  // A2A JSON-RPC at / and the agent card at /.well-known/agent.json
+  a2aHandler(req, res);
 });
 
 server.listen(PORT, () => {
   console.log(`✅ Server running at http://localhost:${PORT}`);
   console.log(`📡 Ready to process x402 payments`);
+  console.log(`🪪 Agent card: http://localhost:${PORT}/.well-known/agent.json`);
   console.log(`\nTest with:`);
   console.log(`curl -X POST http://localhost:${PORT} \\`);
   console.log(`  -H "Content-Type: application/json" \\`);
-  console.log(`  -d '{"text": "I want to buy a banana"}'`);
+  console.log(`  -H "${A2A_EXTENSIONS_HEADER}: ${X402_EXTENSION_URI}" \\`);
+  console.log(`  -d '{"jsonrpc": "2.0", "id": 1, "method": "message/send", "params": {"message": {"messageId": "1", "role": "user", "parts": [{"kind": "text", "text": "I want to buy a banana"}]}}}'`);
+  console.log(`\nUse "message/stream" with curl -N to receive the task's updates as server-sent events.`);
 });
 
 // Graceful shutdown
@@ -24,6 +24,7 @@ import {
   VerifyResponse,
   SettleResponse,
   x402ExtensionConfig,
+  x402ServerExecutorOptions,
   verifyPayment,
   settlePayment,
   DefaultFacilitatorClient,
@@ -32,13 +33,15 @@ import {
 
 export class MerchantServerExecutor extends x402ServerExecutor {
   private facilitator?: FacilitatorClient;
+  private defaultFacilitator?: DefaultFacilitatorClient;
 
   constructor(
     delegate: AgentExecutor,
     config?: Partial<x402ExtensionConfig>,
-    facilitator?: FacilitatorClient
+    facilitator?: FacilitatorClient,
+    options?: x402ServerExecutorOptions
   ) {
-    super(delegate, config);
+    super(delegate, config, options);
 
     // Allow custom facilitator injection, otherwise uses library's default
     this.facilitator = facilitator;
@@ -50,6 +53,18 @@ export class MerchantServerExecutor extends x402ServerExecutor {
     }
   }
 
+  /**
+   * Only quote payment options the facilitator reports it can settle
+   */
+  protected getFacilitator(): FacilitatorClient {
+    if (this.facilitator) {
+      return this.facilitator;
+    }
+    // One instance, so its /supported response is cached across requests
+    this.defaultFacilitator = this.defaultFacilitator || new DefaultFacilitatorClient();
+    return this.defaultFacilitator;
+  }
+
   async verifyPayment(
     payload: PaymentPayload,
     requirements: PaymentRequirements
@@ -13,22 +13,27 @@
 
 /**
  * Production Facilitator Client for real payment processing
+ *
+ * Logs each call around the library's DefaultFacilitatorClient, which
+ * supplies the timeouts, retries and circuit breaker.
  */
 
 import {
-  FacilitatorClient,
+  DefaultFacilitatorClient,
   FacilitatorConfig,
+  FacilitatorUnavailableError,
   PaymentPayload,
   PaymentRequirements,
   VerifyResponse,
   SettleResponse,
 } from 'a2a-x402';
 
-export class ProductionFacilitatorClient implements FacilitatorClient {
-  private config: FacilitatorConfig;
+export class ProductionFacilitatorClient extends DefaultFacilitatorClient {
+  private url: string;
 
   constructor(config: FacilitatorConfig) {
-    this.config = config;
+    super(config);
+    this.url = config.url;
     console.log(`📡 Production Facilitator Client initialized: ${config.url}`);
   }
 
@@ -37,43 +42,15 @@ export class ProductionFacilitatorClient implements FacilitatorClient {
     requirements: PaymentRequirements
   ): Promise<VerifyResponse> {
     console.log('--- PRODUCTION FACILITATOR: VERIFY ---');
-    console.log(`Calling facilitator at: ${this.config.url}/verify`);
+    console.log(`Calling facilitator at: ${this.url}/verify`);
 
     try {
-      const response = await fetch(`${this.config.url}/verify`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
-        },
-        body: JSON.stringify({
-          payload,
-          requirements,
-        }),
-      });
-
-      if (!response.ok) {
-        console.error(`❌ Facilitator verify failed: ${response.status}`);
-        return {
-          isValid: false,
-          invalidReason: `HTTP ${response.status}: ${response.statusText}`,
-        };
-      }
-
-      const result = await response.json() as any;
+      const result = await super.verify(payload, requirements);
       console.log(`✅ Verification result:`, result);
-
-      return {
-        isValid: result.is_valid || result.isValid || false,
-        payer: result.payer,
-        invalidReason: result.invalid_reason || result.invalidReason,
-      };
+      return result;
     } catch (error) {
-      console.error('❌ Facilitator verify error:', error);
-      return {
-        isValid: false,
-        invalidReason: `Network error: ${error instanceof Error ? error.message : String(error)}`,
-      };
+      this.logFailure('verify', error);
+      throw error;
     }
   }
 
@@ -82,47 +59,24 @@ export class ProductionFacilitatorClient implements FacilitatorClient {
     requirements: PaymentRequirements
   ): Promise<SettleResponse> {
     console.log('--- PRODUCTION FACILITATOR: SETTLE ---');
-    console.log(`Calling facilitator at: ${this.config.url}/settle`);
+    console.log(`Calling facilitator at: ${this.url}/settle`);
 
     try {
-      const response = await fetch(`${this.config.url}/settle`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
-        },
-        body: JSON.stringify({
-          payload,
-          requirements,
-        }),
-      });
-
-      if (!response.ok) {
-        console.error(`❌ Facilitator settle failed: ${response.status}`);
-        return {
-          success: false,
-          network: requirements.network,
-          errorReason: `HTTP ${response.status}: ${response.statusText}`,
-        };
-      }
-
-      const result = await response.json() as any;
+      const result = await super.settle(payload, requirements);
       console.log(`✅ Settlement result:`, result);
-
-      return {
-        success: result.success || false,
-        transaction: result.transaction || result.transactionHash,
-        network: result.network || requirements.network,
-        payer: result.payer,
-        errorReason: result.error_reason || result.errorReason,
-      };
+      return result;
     } catch (error) {
-      console.error('❌ Facilitator settle error:', error);
-      return {
-        success: false,
-        network: requirements.network,
-        errorReason: `Network error: ${error instanceof Error ? error.message : String(error)}`,
-      };
+      this.logFailure('settle', error);
+      throw error;
+    }
+  }
+
+  private logFailure(operation: string, error: unknown): void {
+    if (error instanceof FacilitatorUnavailableError) {
+      console.error(`❌ Facilitator ${operation} unavailable (${error.reason}): ${error.message}`);
+      console.error('   Circuit:', this.getHealth());
+    } else {
+      console.error(`❌ Facilitator ${operation} error:`, error);
     }
   }
 }
@@ -12,46 +12,65 @@
 // limitations under the License.
 
 /**
- * Real Facilitator - Interacts with blockchain to verify and settle payments
+ * Real Facilitator - Verifies EIP-3009 authorizations and settles them on-chain
+ *
+ * The payer signs TransferWithAuthorization typed data (see processPayment) and
+ * never sends a transaction. This facilitator checks the signature, that the
+ * nonce is unused on the token contract and that the payer holds the funds, then
+ * submits transferWithAuthorization from its own account, paying the gas.
  */
 
 import {
-  FacilitatorClient,
+  EvmFacilitatorClient,
   PaymentPayload,
   PaymentRequirements,
   VerifyResponse,
   SettleResponse,
-  ExactPaymentPayload,
 } from 'a2a-x402';
 import { ethers } from 'ethers';
 
-// Standard ERC20 ABI for the functions we need
-const ERC20_ABI = [
-  'function balanceOf(address account) view returns (uint256)',
-  'function transfer(address recipient, uint256 amount) returns (bool)',
-  'function transferFrom(address sender, address recipient, uint256 amount) returns (bool)',
-  'function approve(address spender, uint256 amount) returns (bool)',
-  'function allowance(address owner, address spender) view returns (uint256)',
-];
-
-export class RealFacilitator implements FacilitatorClient {
-  private provider: ethers.JsonRpcProvider;
-  private merchantAccount: ethers.Wallet | null;
+export interface RealFacilitatorOptions {
+  /**
+   * JSON-RPC endpoint of the chain (defaults to BASE_SEPOLIA_RPC_URL), e.g.
+   * http://127.0.0.1:8545 for a local Anvil or Hardhat node
+   */
+  rpcUrl?: string;
+  /**
+   * Key of the account that submits settlements and pays gas
+   * (defaults to MERCHANT_PRIVATE_KEY)
+   */
+  privateKey?: string;
+  /**
+   * Blocks to wait for after the settlement transaction is mined (defaults to 1)
+   */
+  confirmations?: number;
+  /**
+   * Clock used for the validAfter/validBefore window, in unix seconds
+   */
+  now?: () => number;
+}
 
-  constructor() {
-    // Get RPC URL from environment or use default Base Sepolia RPC
-    const rpcUrl = process.env.BASE_SEPOLIA_RPC_URL ||
+/**
+ * The library's EvmFacilitatorClient on a single node, with the demo's logging
+ */
+export class RealFacilitator extends EvmFacilitatorClient {
+  constructor(options: RealFacilitatorOptions = {}) {
+    // Get RPC URL from options, environment or use default Base Sepolia RPC
+    const rpcUrl = options.rpcUrl ||
+                   process.env.BASE_SEPOLIA_RPC_URL ||
                    'https://base-sepolia.g.alchemy.com/v2/_sTLFEOJwL7dFs2bLmqUo';
+    const privateKey = options.privateKey || process.env.MERCHANT_PRIVATE_KEY;
 
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    super({
+      rpcUrl,
+      privateKey,
+      confirmations: options.confirmations,
+      now: options.now,
+    });
 
-    // Get merchant private key from environment
-    const merchantPrivateKey = process.env.MERCHANT_PRIVATE_KEY;
-    if (merchantPrivateKey) {
-      this.merchantAccount = new ethers.Wallet(merchantPrivateKey, this.provider);
-      console.log(`💼 Merchant account loaded: ${this.merchantAccount.address}`);
+    if (privateKey) {
+      console.log(`💼 Settlement account loaded: ${new ethers.Wallet(privateKey).address}`);
     } else {
-      this.merchantAccount = null;
       console.warn('⚠️  No MERCHANT_PRIVATE_KEY set - settlement will fail');
     }
   }
@@ -63,83 +82,13 @@ export class RealFacilitator implements FacilitatorClient {
     console.log('--- REAL FACILITATOR: VERIFY ---');
     console.log(`Received payload:\n${JSON.stringify(payload, null, 2)}`);
 
-    try {
-      let payer: string | undefined;
-      let authorization: any;
-      let signature: string | undefined;
-      let messageToVerify = '';
-
-      // Extract payer address and signature from payload
-      if (payload.payload && typeof payload.payload === 'object' && 'authorization' in payload.payload) {
-        const exactPayload = payload.payload as ExactPaymentPayload;
-        payer = exactPayload.authorization.from;
-        authorization = exactPayload.authorization;
-        signature = exactPayload.signature;
-
-        // Get message from extra data if available
-        if (authorization.extra && typeof authorization.extra === 'object' && 'message' in authorization.extra) {
-          messageToVerify = authorization.extra.message as string;
-        }
-      }
-
-      if (!payer || !signature) {
-        return {
-          isValid: false,
-          invalidReason: 'Missing payer address or signature',
-          payer: payer,
-        };
-      }
-
-      // Reconstruct message if not provided
-      if (!messageToVerify) {
-        messageToVerify = `Chain ID: ${payload.network}
-Contract: ${requirements.asset}
-User: ${payer}
-Receiver: ${requirements.payTo}
-Amount: ${requirements.maxAmountRequired}
-`;
-      }
-
-      // Recover address from signature
-      const recoveredAddress = ethers.verifyMessage(messageToVerify, signature);
-
-      if (recoveredAddress.toLowerCase() !== payer.toLowerCase()) {
-        return {
-          isValid: false,
-          invalidReason: `Signature verification failed. Expected ${payer}, got ${recoveredAddress}`,
-          payer: payer,
-        };
-      }
-
-      // Check token balance on-chain
-      const tokenContract = new ethers.Contract(
-        requirements.asset,
-        ERC20_ABI,
-        this.provider
-      );
-
-      const balance = await tokenContract.balanceOf(payer);
-      const requiredAmount = BigInt(requirements.maxAmountRequired);
-
-      if (balance < requiredAmount) {
-        return {
-          isValid: false,
-          invalidReason: `Insufficient balance. Has ${balance.toString()}, needs ${requiredAmount.toString()}`,
-          payer: payer,
-        };
-      }
-
-      console.log(`✅ Payment verified successfully. Payer: ${payer}, Balance: ${balance.toString()}`);
-      return { isValid: true, payer: payer };
-
-    } catch (error) {
-      console.error('❌ Verification error:', error);
-      return {
-        isValid: false,
-        invalidReason: error instanceof Error ? error.message : String(error),
-        payer: undefined,
-      };
+    const result = await super.verify(payload, requirements);
+    if (result.isValid) {
+      console.log(`✅ Payment verified successfully. Payer: ${result.payer}`);
+    } else {
+      console.log(`⛔ Payload rejected: ${result.invalidReason}`);
     }
+    return result;
   }
 
   async settle(
@@ -148,93 +97,12 @@ Amount: ${requirements.maxAmountRequired}
   ): Promise<SettleResponse> {
     console.log('--- REAL FACILITATOR: SETTLE ---');
 
-    if (!this.merchantAccount) {
-      return {
-        success: false,
-        network: requirements.network,
-        errorReason: 'Merchant account not configured. Set MERCHANT_PRIVATE_KEY environment variable.',
-      };
-    }
-
-    try {
-      let payer: string | undefined;
-
-      // Extract payer information
-      if (payload.payload && typeof payload.payload === 'object' && 'authorization' in payload.payload) {
-        const exactPayload = payload.payload as ExactPaymentPayload;
-        payer = exactPayload.authorization.from;
-      }
-
-      if (!payer) {
-        return {
-          success: false,
-          network: requirements.network,
-          errorReason: 'Could not extract payer address from payload',
-        };
-      }
-
-      // Setup token contract
-      const tokenContract = new ethers.Contract(
-        requirements.asset,
-        ERC20_ABI,
-        this.merchantAccount
-      );
-
-      const amount = BigInt(requirements.maxAmountRequired);
-
-      console.log(`📤 Executing transferFrom: ${payer} -> ${requirements.payTo}, amount: ${amount.toString()}`);
-
-      // Build the transferFrom transaction
-      // Note: This assumes the payer has approved the merchant to spend tokens
-      const tx = await tokenContract.transferFrom(
-        payer,
-        requirements.payTo,
-        amount,
-        {
-          gasLimit: 200000, // Set appropriate gas limit
-        }
-      );
-
-      console.log(`⏳ Transaction sent: ${tx.hash}`);
-      console.log('   Waiting for confirmation...');
-
-      // Wait for transaction receipt
-      const receipt = await tx.wait();
-
-      if (receipt && receipt.status === 1) {
-        console.log(`✅ Settlement successful. TX: ${tx.hash}`);
-        return {
-          success: true,
-          transaction: tx.hash,
-          network: requirements.network,
-          payer: payer,
-        };
-      } else {
-        const errorMsg = `Transaction failed. TX: ${tx.hash}`;
-        console.error(`❌ ${errorMsg}`);
-        return {
-          success: false,
-          network: requirements.network,
-          errorReason: errorMsg,
-        };
-      }
-
-    } catch (error) {
-      console.error('❌ Settlement error:', error);
-
-      // Parse common errors
-      let errorReason = error instanceof Error ? error.message : String(error);
-
-      if (errorReason.includes('insufficient allowance') ||
-          errorReason.includes('ERC20: transfer amount exceeds allowance')) {
-        errorReason = `Insufficient token approval. The client must approve the merchant to spend tokens before payment can be settled. Error: ${errorReason}`;
-      }
-
-      return {
-        success: false,
-        network: requirements.network,
-        errorReason: errorReason,
-      };
+    const result = await super.settle(payload, requirements);
+    if (result.success) {
+      console.log(`✅ Settlement successful. TX: ${result.transaction}`);
+    } else {
+      console.error(`❌ Settlement failed: ${result.errorReason}`);
     }
+    return result;
   }
 }
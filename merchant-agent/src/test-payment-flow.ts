@@ -27,6 +27,7 @@ import {
   x402Utils,
   processPayment,
   createPaymentSubmissionMessage,
+  formatAtomicAmount,
   PaymentRequirements,
   Task,
   TaskState,
@@ -67,7 +68,7 @@ class MockAgentExecutor {
     // Simulate the agent tool being called
     const productName = "banana";
     const price = getProductPrice(productName);
-    const priceUSDC = (parseInt(price) / 1_000_000).toFixed(6);
+    const priceUSDC = formatAtomicAmount(price, 6);
 
     console.log(`   Product: ${productName}`);
     console.log(`   Price: ${priceUSDC} USDC`);
@@ -0,0 +1,146 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Test Real Facilitator - Settles an EIP-3009 payment on a local node
+ *
+ * Runs against Anvil or Hardhat with contracts/MockEIP3009Token.sol deployed:
+ * 1. Mints tokens to the payer
+ * 2. Payer signs a TransferWithAuthorization with processPayment
+ * 3. RealFacilitator verifies the signature, nonce and balance
+ * 4. RealFacilitator settles with transferWithAuthorization
+ * 5. Verifying the same payload again fails because the nonce is used
+ */
+
+import { ethers } from 'ethers';
+import {
+  PaymentRequirements,
+  WalletSigner,
+  processPayment,
+  registerNetwork,
+  formatAtomicAmount,
+} from 'a2a-x402';
+import { RealFacilitator } from './facilitator/RealFacilitator';
+
+// Default funded accounts of `anvil` and `npx hardhat node`
+const ANVIL_ACCOUNT_0_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+const ANVIL_ACCOUNT_1_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const ANVIL_ACCOUNT_2_ADDRESS = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const LOCAL_NETWORK = 'local';
+
+async function testRealFacilitator(): Promise<void> {
+  const rpcUrl = process.env.LOCAL_RPC_URL || 'http://127.0.0.1:8545';
+  const tokenAddress = process.env.MOCK_TOKEN_ADDRESS;
+  if (!tokenAddress) {
+    throw new Error('Set MOCK_TOKEN_ADDRESS to the deployed MockEIP3009Token');
+  }
+
+  console.log('🧪 Testing RealFacilitator against a local node\n');
+  console.log(`   RPC: ${rpcUrl}`);
+  console.log(`   Token: ${tokenAddress}`);
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const { chainId } = await provider.getNetwork();
+  const tokenName = process.env.MOCK_TOKEN_NAME || 'USD Coin';
+
+  registerNetwork({
+    name: LOCAL_NETWORK,
+    chainId: Number(chainId),
+    displayName: 'Local Node',
+    assets: [{
+      address: tokenAddress,
+      symbol: 'USDC',
+      decimals: 6,
+      eip712: { name: tokenName, version: '2' },
+    }],
+  });
+
+  const settlementKey = process.env.SETTLEMENT_PRIVATE_KEY || ANVIL_ACCOUNT_0_KEY;
+  const payer = new ethers.Wallet(process.env.PAYER_PRIVATE_KEY || ANVIL_ACCOUNT_1_KEY);
+  const payTo = process.env.PAY_TO_ADDRESS || ANVIL_ACCOUNT_2_ADDRESS;
+  const amount = 1_500_000n;
+
+  const token = new ethers.Contract(
+    tokenAddress,
+    [
+      'function mint(address to, uint256 value)',
+      'function balanceOf(address account) view returns (uint256)',
+    ],
+    new ethers.Wallet(settlementKey, provider)
+  );
+
+  // Step 1: Fund the payer
+  console.log(`\n📋 Step 1: Minting ${formatAtomicAmount(amount, 6)} USDC to payer ${payer.address}`);
+  await (await token.mint(payer.address, amount)).wait();
+
+  const requirements: PaymentRequirements = {
+    scheme: 'exact',
+    network: LOCAL_NETWORK,
+    asset: tokenAddress,
+    payTo,
+    maxAmountRequired: amount.toString(),
+    resource: 'https://example.com/product/banana',
+    description: 'Payment for: banana',
+    mimeType: 'application/json',
+    maxTimeoutSeconds: 600,
+  };
+
+  // Step 2: Sign the authorization
+  console.log('\n📋 Step 2: Payer signs TransferWithAuthorization');
+  const payload = await processPayment(requirements, new WalletSigner(payer));
+  console.log(`   Nonce: ${payload.payload.authorization.nonce}`);
+
+  const facilitator = new RealFacilitator({ rpcUrl, privateKey: settlementKey });
+  const balanceBefore: bigint = await token.balanceOf(payTo);
+
+  // Step 3: Verify
+  console.log('\n📋 Step 3: Verify');
+  const verification = await facilitator.verify(payload, requirements);
+  if (!verification.isValid) {
+    throw new Error(`Verification failed: ${verification.invalidReason}`);
+  }
+
+  // Step 4: Settle
+  console.log('\n📋 Step 4: Settle');
+  const settlement = await facilitator.settle(payload, requirements);
+  if (!settlement.success) {
+    throw new Error(`Settlement failed: ${settlement.errorReason}`);
+  }
+  const balanceAfter: bigint = await token.balanceOf(payTo);
+  if (balanceAfter - balanceBefore !== amount) {
+    throw new Error(`Merchant received ${balanceAfter - balanceBefore}, expected ${amount}`);
+  }
+  console.log(`   Merchant balance: ${formatAtomicAmount(balanceBefore, 6)} → ${formatAtomicAmount(balanceAfter, 6)} USDC`);
+
+  // Step 5: Replay
+  console.log('\n📋 Step 5: Replaying the settled payload');
+  const replay = await facilitator.verify(payload, requirements);
+  if (replay.isValid) {
+    throw new Error('Replayed authorization was accepted');
+  }
+  console.log(`   Rejected: ${replay.invalidReason}`);
+
+  console.log('\n✅ RealFacilitator settled the authorization on-chain');
+  console.log(`   Transaction: ${settlement.transaction}`);
+}
+
+// Run the test
+if (require.main === module) {
+  testRealFacilitator().catch((error) => {
+    console.error('\n❌ Test failed with error:', error);
+    process.exit(1);
+  });
+}
+
+export { testRealFacilitator };
@@ -0,0 +1,722 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * A2A JSON-RPC 2.0 server adapter
+ *
+ *   POST {path}                    message/send, message/stream, tasks/get,
+ *                                  tasks/cancel, tasks/resubscribe
+ *   GET  /.well-known/agent.json   agent card
+ */
+
+import { randomUUID } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import {
+  AgentExecutor,
+  Artifact,
+  EventQueue,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  Message,
+  Part,
+  PaymentStatus,
+  Task,
+  TaskState,
+  TaskStatus,
+  TaskStore,
+} from "../types/state";
+import {
+  ExtensionNotActivatedError,
+  JsonRpcError,
+  JsonRpcErrorCode,
+} from "../types/errors";
+import { addExtensionActivationHeader, getRequestedExtensions } from "./agent";
+import { InMemoryTaskStore } from "./store";
+import { x402Utils } from "./utils";
+import { logger } from "./logger";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const TERMINAL_STATES: TaskState[] = [
+  TaskState.COMPLETED,
+  TaskState.CANCELED,
+  TaskState.FAILED,
+];
+
+export interface A2AHandlerOptions {
+  /**
+   * Served at /.well-known/agent.json, e.g. from createX402AgentCard
+   */
+  agentCard: Record<string, any>;
+  /**
+   * Path JSON-RPC requests are posted to (defaults to "/")
+   */
+  path?: string;
+  /**
+   * Serve message/stream and tasks/resubscribe over server-sent events, and
+   * advertise capabilities.streaming in the agent card (defaults to false)
+   */
+  streaming?: boolean;
+  /**
+   * Where tasks are kept between messages (defaults to an InMemoryTaskStore)
+   */
+  taskStore?: TaskStore;
+}
+
+/**
+ * Receives a running task's update events; the last is a status-update with final set
+ */
+type TaskSubscriber = (event: Record<string, any>) => void;
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf-8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        // Drain the rest so the error response can still be written
+        req.removeAllListeners("data");
+        req.resume();
+        reject(new Error("Request body too large"));
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Request headers as RequestContext carries them, with repeated headers joined
+ */
+function getRequestHeaders(req: IncomingMessage): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value !== undefined) {
+      headers[name] = Array.isArray(value) ? value.join(", ") : value;
+    }
+  }
+  return headers;
+}
+
+/**
+ * Starts a server-sent event stream and returns the function writing its events
+ */
+function openEventStream(res: ServerResponse): (body: unknown) => void {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  return (body) => {
+    res.write(`data: ${JSON.stringify(body)}\n\n`);
+  };
+}
+
+function toWireMessage(message: Message): Record<string, any> {
+  return { kind: "message", ...message };
+}
+
+function toWireStatus(status: TaskStatus): Record<string, any> {
+  return {
+    ...status,
+    message: status.message && toWireMessage(status.message),
+  };
+}
+
+/**
+ * The task as A2A clients expect it on the wire, with at most historyLength
+ * of its latest messages when given
+ */
+function toWireTask(task: Task, historyLength?: number): Record<string, any> {
+  const history =
+    historyLength === undefined
+      ? task.history
+      : task.history?.slice(task.history.length - historyLength);
+  return {
+    kind: "task",
+    ...task,
+    status: toWireStatus(task.status),
+    history: history?.map(toWireMessage),
+  };
+}
+
+/**
+ * Adds a message to the task's history, replacing an earlier version of it
+ */
+function recordMessage(task: Task, message: Message): void {
+  const history = task.history || (task.history = []);
+  const index = history.findIndex((entry) => entry.messageId === message.messageId);
+  if (index >= 0) {
+    history[index] = message;
+  } else {
+    history.push(message);
+  }
+}
+
+/**
+ * A TaskArtifactUpdateEvent carrying a new or changed artifact in full
+ */
+function toArtifactUpdate(task: Task, artifact: Artifact): Record<string, any> {
+  return {
+    kind: "artifact-update",
+    taskId: task.id,
+    contextId: task.contextId,
+    artifact,
+  };
+}
+
+/**
+ * A TaskStatusUpdateEvent carrying the task's current status
+ */
+function toStatusUpdate(task: Task, final: boolean): Record<string, any> {
+  return {
+    kind: "status-update",
+    taskId: task.id,
+    contextId: task.contextId,
+    status: toWireStatus(task.status),
+    final,
+  };
+}
+
+function parseRequest(value: unknown): JsonRpcRequest {
+  if (Array.isArray(value)) {
+    throw new JsonRpcError(
+      JsonRpcErrorCode.INVALID_REQUEST,
+      "Batch requests are not supported"
+    );
+  }
+  const request = value as JsonRpcRequest;
+  if (
+    !request ||
+    typeof request !== "object" ||
+    request.jsonrpc !== "2.0" ||
+    typeof request.method !== "string"
+  ) {
+    throw new JsonRpcError(
+      JsonRpcErrorCode.INVALID_REQUEST,
+      'Expected a JSON-RPC 2.0 request with "jsonrpc": "2.0" and a method'
+    );
+  }
+  return request;
+}
+
+/**
+ * Checks a text, file or data part. Parts without a kind, which older
+ * clients send, get the kind their content implies.
+ */
+function parsePart(part: any, index: number): Part {
+  const path = `params.message.parts[${index}]`;
+  if (!part || typeof part !== "object") {
+    throw new JsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, `${path} must be an object`);
+  }
+  const kind =
+    part.kind ??
+    (typeof part.text === "string"
+      ? "text"
+      : part.file
+        ? "file"
+        : part.data
+          ? "data"
+          : undefined);
+  const file = part.file;
+  const valid =
+    (kind === "text" && typeof part.text === "string") ||
+    (kind === "file" &&
+      file &&
+      typeof file === "object" &&
+      (typeof file.bytes === "string" || typeof file.uri === "string")) ||
+    (kind === "data" &&
+      part.data &&
+      typeof part.data === "object" &&
+      !Array.isArray(part.data));
+  if (!valid) {
+    throw new JsonRpcError(
+      JsonRpcErrorCode.INVALID_PARAMS,
+      `${path} must be a text part with text, a file part with file.bytes or file.uri, or a data part with a data object`
+    );
+  }
+  return { ...part, kind };
+}
+
+function parseMessage(params: any): Message {
+  const message = params?.message;
+  if (!message || typeof message !== "object") {
+    throw new JsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, "params.message is required");
+  }
+  if (typeof message.messageId !== "string" || message.messageId.length === 0) {
+    throw new JsonRpcError(
+      JsonRpcErrorCode.INVALID_PARAMS,
+      "params.message.messageId must be a non-empty string"
+    );
+  }
+  if (message.role !== "user" && message.role !== "agent") {
+    throw new JsonRpcError(
+      JsonRpcErrorCode.INVALID_PARAMS,
+      'params.message.role must be "user" or "agent"'
+    );
+  }
+  if (!Array.isArray(message.parts)) {
+    throw new JsonRpcError(
+      JsonRpcErrorCode.INVALID_PARAMS,
+      "params.message.parts must be an array"
+    );
+  }
+  message.parts = message.parts.map(parsePart);
+  return message;
+}
+
+function parseTaskId(params: any): string {
+  if (typeof params?.id !== "string" || params.id.length === 0) {
+    throw new JsonRpcError(JsonRpcErrorCode.INVALID_PARAMS, "params.id must be a task ID");
+  }
+  return params.id;
+}
+
+function parseHistoryLength(params: any): number | undefined {
+  const historyLength = params?.historyLength;
+  if (historyLength === undefined || historyLength === null) {
+    return undefined;
+  }
+  if (!Number.isInteger(historyLength) || historyLength < 0) {
+    throw new JsonRpcError(
+      JsonRpcErrorCode.INVALID_PARAMS,
+      "params.historyLength must be a non-negative integer"
+    );
+  }
+  return historyLength;
+}
+
+/**
+ * Request handler serving an AgentExecutor, such as an x402ServerExecutor,
+ * over A2A JSON-RPC. Mount it with http.createServer:
+ *
+ *   http.createServer(createA2AHandler(executor, { agentCard })).listen(10000);
+ *
+ * message/send runs the executor to completion and returns the task. The
+ * executor receives the stored task as currentTask, so a payment submitted
+ * on a payment-required task finds its requirements. Events the executor
+ * enqueues update the stored task and its history, which tasks/get returns.
+ * A message naming an unknown task or a task in a final state is refused.
+ *
+ * With streaming enabled, message/stream sends the task and then, for every
+ * event as it is enqueued, an artifact-update per new or changed artifact and
+ * a status-update, so clients see payment-required, payment-verified and
+ * payment-completed as they happen.
+ * tasks/resubscribe joins the stream of a task that is still running.
+ *
+ * Request headers reach the executor on RequestContext.headers. Extensions
+ * the client requests with X-A2A-Extensions and the agent card declares are
+ * echoed in the response's X-A2A-Extensions header.
+ */
+export function createA2AHandler(
+  executor: AgentExecutor,
+  options: A2AHandlerOptions
+): (req: IncomingMessage, res: ServerResponse) => void {
+  const rpcPath = options.path || "/";
+  const streaming = options.streaming === true;
+  const agentCard = {
+    ...options.agentCard,
+    capabilities: { ...options.agentCard.capabilities, streaming },
+  };
+  const declaredExtensions: string[] = (
+    agentCard.capabilities.extensions || []
+  ).map((extension: { uri: string }) => extension.uri);
+  const taskStore = options.taskStore || new InMemoryTaskStore();
+  // Subscribers of the tasks an executor is running
+  const running = new Map<string, Set<TaskSubscriber>>();
+  // Running tasks whose message submits a payment
+  const paying = new Set<string>();
+  const utils = new x402Utils();
+
+  const getTask = async (id: string): Promise<Task> => {
+    const task = await taskStore.get(id);
+    if (!task) {
+      throw new JsonRpcError(JsonRpcErrorCode.TASK_NOT_FOUND, `Task ${id} not found`);
+    }
+    return task;
+  };
+
+  /**
+   * Applies an executor event to the task and stores it, unless the stored
+   * task was canceled meanwhile. Returns the artifacts the event added or
+   * changed, or null when it was ignored.
+   */
+  const applyEvent = async (task: Task, event: Task): Promise<Artifact[] | null> => {
+    const stored = await taskStore.get(task.id);
+    if (stored?.status.state === TaskState.CANCELED) {
+      task.status = stored.status;
+      return null;
+    }
+    // Snapshot, since executors keep mutating the objects they enqueue
+    const snapshot: Task = JSON.parse(JSON.stringify(event));
+    task.status = { ...snapshot.status, timestamp: new Date().toISOString() };
+    if (snapshot.status.message) {
+      recordMessage(task, snapshot.status.message);
+    }
+    if (snapshot.metadata) {
+      task.metadata = { ...task.metadata, ...snapshot.metadata };
+    }
+    let changed: Artifact[] = [];
+    if (snapshot.artifacts) {
+      const previous = new Map(
+        (task.artifacts || []).map((artifact) => [
+          artifact.artifactId,
+          JSON.stringify(artifact),
+        ])
+      );
+      changed = snapshot.artifacts.filter(
+        (artifact) => previous.get(artifact.artifactId) !== JSON.stringify(artifact)
+      );
+      task.artifacts = snapshot.artifacts;
+    }
+    await taskStore.set(task);
+    return changed;
+  };
+
+  const publish = (task: Task, artifacts: Artifact[]): void => {
+    const events = [
+      ...artifacts.map((artifact) => toArtifactUpdate(task, artifact)),
+      toStatusUpdate(task, false),
+    ];
+    running
+      .get(task.id)
+      ?.forEach((subscriber) => events.forEach((event) => subscriber(event)));
+  };
+
+  /**
+   * Sends subscribers the final update and ends the task's run; later calls do nothing
+   */
+  const finish = (task: Task): void => {
+    const subscribers = running.get(task.id);
+    running.delete(task.id);
+    paying.delete(task.id);
+    subscribers?.forEach((subscriber) => subscriber(toStatusUpdate(task, true)));
+  };
+
+  /**
+   * Validates the message and returns the task it starts or continues. The
+   * task counts as running from here until its run finishes.
+   */
+  const openTask = async (params: any): Promise<{ task: Task; message: Message }> => {
+    const message = parseMessage(params);
+
+    let task: Task;
+    if (message.taskId) {
+      task = await getTask(message.taskId);
+      if (TERMINAL_STATES.includes(task.status.state)) {
+        throw new JsonRpcError(
+          JsonRpcErrorCode.INVALID_PARAMS,
+          `Task ${task.id} is ${task.status.state} and accepts no more messages`
+        );
+      }
+      if (running.has(task.id)) {
+        throw new JsonRpcError(
+          JsonRpcErrorCode.INVALID_PARAMS,
+          `Task ${task.id} is still handling a previous message`
+        );
+      }
+    } else {
+      task = {
+        id: randomUUID(),
+        contextId: message.contextId || randomUUID(),
+        status: { state: TaskState.SUBMITTED, timestamp: new Date().toISOString() },
+        metadata: {},
+      };
+    }
+    running.set(task.id, new Set());
+    if (utils.getPaymentStatusFromMessage(message) === PaymentStatus.PAYMENT_SUBMITTED) {
+      paying.add(task.id);
+    }
+    message.taskId = task.id;
+    message.contextId = task.contextId;
+    recordMessage(task, message);
+    try {
+      await taskStore.set(task);
+    } catch (error) {
+      running.delete(task.id);
+      paying.delete(task.id);
+      throw error;
+    }
+    return { task, message };
+  };
+
+  /**
+   * Runs the executor on the message, publishing every event to the task's subscribers
+   */
+  const runTask = async (
+    task: Task,
+    message: Message,
+    headers: Record<string, string>,
+    subscriber?: TaskSubscriber
+  ): Promise<void> => {
+    if (subscriber) {
+      running.get(task.id)?.add(subscriber);
+    }
+
+    const eventQueue: EventQueue = {
+      enqueueEvent: async (event) => {
+        if (event.id && event.id !== task.id) {
+          logger.warn(`Ignoring event for task ${event.id} while serving task ${task.id}`);
+          return;
+        }
+        const artifacts = await applyEvent(task, event);
+        if (artifacts) {
+          publish(task, artifacts);
+        }
+      },
+    };
+
+    try {
+      await executor.execute(
+        {
+          taskId: task.id,
+          contextId: task.contextId,
+          // A copy, so only enqueued events change the stored task
+          currentTask: JSON.parse(JSON.stringify(task)),
+          message,
+          headers,
+        },
+        eventQueue
+      );
+    } catch (error) {
+      // A client that did not activate a required extension is refused; anything else is the agent's failure
+      const refused = error instanceof ExtensionNotActivatedError;
+      const reason = error instanceof Error ? error.message : String(error);
+      const text = refused ? reason : `Agent execution failed: ${reason}`;
+      if (refused) {
+        logger.warn(`Refused task ${task.id}: ${reason}`);
+      } else {
+        logger.error(`Agent execution failed for task ${task.id}:`, error);
+      }
+      await applyEvent(task, {
+        id: task.id,
+        status: {
+          state: TaskState.FAILED,
+          message: {
+            messageId: randomUUID(),
+            taskId: task.id,
+            contextId: task.contextId,
+            role: "agent",
+            parts: [{ kind: "text", text }],
+          },
+        },
+      });
+      if (error instanceof ExtensionNotActivatedError) {
+        throw new JsonRpcError(JsonRpcErrorCode.INVALID_REQUEST, reason, {
+          taskId: task.id,
+          extension: error.extensionUri,
+        });
+      }
+      throw new JsonRpcError(
+        JsonRpcErrorCode.INTERNAL_ERROR,
+        `Agent execution failed: ${reason}`,
+        { taskId: task.id }
+      );
+    } finally {
+      finish(task);
+    }
+  };
+
+  const sendMessage = async (
+    params: any,
+    headers: Record<string, string>
+  ): Promise<Task> => {
+    const { task, message } = await openTask(params);
+    await runTask(task, message, headers);
+    // Re-read, in case the task was canceled while it ran
+    return getTask(task.id);
+  };
+
+  const cancelTask = async (params: any): Promise<Task> => {
+    const task = await getTask(parseTaskId(params));
+    if (TERMINAL_STATES.includes(task.status.state)) {
+      throw new JsonRpcError(
+        JsonRpcErrorCode.TASK_NOT_CANCELABLE,
+        `Task ${task.id} is ${task.status.state} and cannot be canceled`
+      );
+    }
+    // A payment being verified or settled may be captured on-chain; canceling
+    // now would drop the receipt recorded afterwards
+    if (
+      paying.has(task.id) ||
+      utils.getPaymentStatus(task) === PaymentStatus.PAYMENT_VERIFIED
+    ) {
+      throw new JsonRpcError(
+        JsonRpcErrorCode.TASK_NOT_CANCELABLE,
+        `Task ${task.id} is processing a payment and cannot be canceled`
+      );
+    }
+    task.status = { state: TaskState.CANCELED, timestamp: new Date().toISOString() };
+    await taskStore.set(task);
+    finish(task);
+    return task;
+  };
+
+  /**
+   * Streams the task's updates to the response until its run finishes
+   */
+  const subscribe = (
+    id: JsonRpcResponse["id"],
+    task: Task,
+    res: ServerResponse
+  ): TaskSubscriber => {
+    const send = openEventStream(res);
+    send({ jsonrpc: "2.0", id, result: toWireTask(task) });
+    const subscriber: TaskSubscriber = (event) => {
+      send({ jsonrpc: "2.0", id, result: event });
+      if (event.final) {
+        res.end();
+      }
+    };
+    // A client that disconnects stops receiving updates; the task keeps running
+    res.on("close", () => running.get(task.id)?.delete(subscriber));
+    return subscriber;
+  };
+
+  const streamMessage = async (
+    request: JsonRpcRequest,
+    headers: Record<string, string>,
+    res: ServerResponse
+  ): Promise<void> => {
+    const { task, message } = await openTask(request.params);
+    const subscriber = subscribe(request.id ?? null, task, res);
+    try {
+      await runTask(task, message, headers, subscriber);
+    } catch {
+      // Already logged, and streamed to the client as the failed status
+    }
+  };
+
+  const resubscribe = async (
+    request: JsonRpcRequest,
+    res: ServerResponse
+  ): Promise<void> => {
+    const task = await getTask(parseTaskId(request.params));
+    const subscriber = subscribe(request.id ?? null, task, res);
+    const subscribers = running.get(task.id);
+    if (subscribers) {
+      subscribers.add(subscriber);
+    } else {
+      subscriber(toStatusUpdate(task, true));
+    }
+  };
+
+  const requireStreaming = (method: string): void => {
+    if (!streaming) {
+      throw new JsonRpcError(
+        JsonRpcErrorCode.UNSUPPORTED_OPERATION,
+        `Method "${method}" needs streaming, which this agent does not support`
+      );
+    }
+  };
+
+  const dispatch = async (
+    request: JsonRpcRequest,
+    headers: Record<string, string>,
+    res: ServerResponse
+  ): Promise<unknown> => {
+    switch (request.method) {
+      case "message/send":
+        return toWireTask(await sendMessage(request.params, headers));
+      case "tasks/get":
+        return toWireTask(
+          await getTask(parseTaskId(request.params)),
+          parseHistoryLength(request.params)
+        );
+      case "tasks/cancel":
+        return toWireTask(await cancelTask(request.params));
+      case "message/stream":
+        requireStreaming(request.method);
+        await streamMessage(request, headers, res);
+        return undefined;
+      case "tasks/resubscribe":
+        requireStreaming(request.method);
+        await resubscribe(request, res);
+        return undefined;
+      default:
+        throw new JsonRpcError(
+          JsonRpcErrorCode.METHOD_NOT_FOUND,
+          `Method "${request.method}" not found`
+        );
+    }
+  };
+
+  return async (req, res) => {
+    const path = (req.url || "/").split("?")[0];
+
+    if (req.method === "GET" && path === "/.well-known/agent.json") {
+      sendJson(res, 200, agentCard);
+      return;
+    }
+    if (req.method !== "POST" || path !== rpcPath) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    const headers = getRequestHeaders(req);
+    const responseHeaders: Record<string, string> = {};
+    for (const uri of getRequestedExtensions(headers)) {
+      if (declaredExtensions.includes(uri)) {
+        addExtensionActivationHeader(responseHeaders, uri);
+      }
+    }
+    for (const [name, value] of Object.entries(responseHeaders)) {
+      res.setHeader(name, value);
+    }
+
+    let id: JsonRpcResponse["id"] = null;
+    let response: JsonRpcResponse;
+    try {
+      let body: unknown;
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch (error) {
+        throw new JsonRpcError(
+          JsonRpcErrorCode.PARSE_ERROR,
+          `Parse error: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      const request = parseRequest(body);
+      id = request.id ?? null;
+      const result = await dispatch(request, headers, res);
+      if (res.headersSent) {
+        // Streamed as server-sent events
+        return;
+      }
+      response = { jsonrpc: "2.0", id, result };
+    } catch (error) {
+      if (!(error instanceof JsonRpcError)) {
+        logger.error("Unexpected error serving A2A request:", error);
+      }
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      response = {
+        jsonrpc: "2.0",
+        id,
+        error:
+          error instanceof JsonRpcError
+            ? { code: error.code, message: error.message, data: error.data }
+            : { code: JsonRpcErrorCode.INTERNAL_ERROR, message: "Internal error" },
+      };
+    }
+    sendJson(res, 200, response);
+  };
+}
@@ -15,7 +15,7 @@
  * Agent utilities for x402 protocol
  */
 
-import { X402_EXTENSION_URI } from "../types/config";
+import { A2A_EXTENSIONS_HEADER, X402_EXTENSION_URI } from "../types/config";
 
 export interface ExtensionDeclaration {
   uri: string;
@@ -37,33 +37,66 @@ export function getExtensionDeclaration(
   };
 }
 
+/**
+ * Extension URIs listed in an X-A2A-Extensions header, whatever the header name's case
+ */
+export function getRequestedExtensions(
+  requestHeaders: Record<string, string | string[] | undefined>
+): string[] {
+  const name = A2A_EXTENSIONS_HEADER.toLowerCase();
+  const values = Object.entries(requestHeaders)
+    .filter(([key]) => key.toLowerCase() === name)
+    .flatMap(([, value]) => (Array.isArray(value) ? value : [value || ""]));
+  return values
+    .flatMap((value) => value.split(","))
+    .map((uri) => uri.trim())
+    .filter((uri) => uri.length > 0);
+}
+
 /**
  * Check if x402 extension is activated via HTTP headers
  */
-export function checkExtensionActivation(requestHeaders: Record<string, string>): boolean {
-  const extensions = requestHeaders["x-a2a-extensions"] || requestHeaders["X-A2A-Extensions"] || "";
-  return extensions.includes(X402_EXTENSION_URI);
+export function checkExtensionActivation(
+  requestHeaders: Record<string, string | string[] | undefined>,
+  extensionUri: string = X402_EXTENSION_URI
+): boolean {
+  return getRequestedExtensions(requestHeaders).includes(extensionUri);
 }
 
 /**
- * Echo extension URI in response header to confirm activation
+ * Echo extension URI in response header to confirm activation, keeping any
+ * extensions the header already lists
  */
 export function addExtensionActivationHeader(
-  responseHeaders: Record<string, string>
+  responseHeaders: Record<string, string>,
+  extensionUri: string = X402_EXTENSION_URI
 ): Record<string, string> {
-  responseHeaders["X-A2A-Extensions"] = X402_EXTENSION_URI;
+  const activated = getRequestedExtensions(responseHeaders);
+  for (const key of Object.keys(responseHeaders)) {
+    if (key.toLowerCase() === A2A_EXTENSIONS_HEADER.toLowerCase()) {
+      delete responseHeaders[key];
+    }
+  }
+  if (!activated.includes(extensionUri)) {
+    activated.push(extensionUri);
+  }
+  responseHeaders[A2A_EXTENSIONS_HEADER] = activated.join(", ");
   return responseHeaders;
 }
 
 /**
- * Create x402-enabled agent card
+ * Create x402-enabled agent card. Set streaming when the agent serves
+ * message/stream, e.g. through createA2AHandler's streaming option, and
+ * required to the executor's config.required.
  */
 export function createX402AgentCard(
   name: string,
   description: string,
   url: string,
   version: string = "1.0.0",
-  skills: any[] = []
+  skills: any[] = [],
+  streaming: boolean = false,
+  required: boolean = true
 ): any {
   return {
     name,
@@ -73,9 +106,9 @@ export function createX402AgentCard(
     defaultInputModes: ["text", "text/plain"],
     defaultOutputModes: ["text", "text/plain"],
     capabilities: {
-      streaming: false,
+      streaming,
       extensions: [
-        getExtensionDeclaration("Supports payments using the x402 protocol.", true),
+        getExtensionDeclaration("Supports payments using the x402 protocol.", required),
       ],
     },
     skills,
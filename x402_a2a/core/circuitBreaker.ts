@@ -0,0 +1,104 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Circuit breaker guarding calls to a remote service
+ */
+
+import { CircuitState, FacilitatorHealth } from "../types/state";
+
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures after which the circuit opens (defaults to 5)
+   */
+  failureThreshold?: number;
+  /**
+   * How long the circuit stays open before a trial call, in milliseconds (defaults to 30 seconds)
+   */
+  resetTimeoutMs?: number;
+  /**
+   * Current time in unix milliseconds (defaults to the system clock)
+   */
+  now?: () => number;
+}
+
+/**
+ * Opens after a run of consecutive failures so callers fail fast, then lets a
+ * single trial call through once the reset timeout has passed. The trial's
+ * outcome closes the circuit or opens it again.
+ */
+export class CircuitBreaker {
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+  private now: () => number;
+  private state: CircuitState = CircuitState.CLOSED;
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private lastError?: string;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30_000;
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Whether a call may proceed now. Every permitted call must be followed by
+   * recordSuccess or recordFailure.
+   */
+  tryAcquire(): boolean {
+    if (this.state === CircuitState.OPEN) {
+      if (this.now() - this.openedAt! < this.resetTimeoutMs) {
+        return false;
+      }
+      this.state = CircuitState.HALF_OPEN;
+    }
+    if (this.state === CircuitState.HALF_OPEN) {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = CircuitState.CLOSED;
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: string): void {
+    this.consecutiveFailures++;
+    this.lastError = error;
+    if (
+      this.state === CircuitState.HALF_OPEN ||
+      this.consecutiveFailures >= this.failureThreshold
+    ) {
+      this.state = CircuitState.OPEN;
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+
+  getHealth(): FacilitatorHealth {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      lastError: this.lastError,
+    };
+  }
+}
@@ -0,0 +1,203 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * ConfirmationTracker implementations
+ */
+
+import { JsonRpcProvider } from "ethers";
+import {
+  ConfirmationStatus,
+  ConfirmationTracker,
+  SettleResponse,
+  SettlementConfirmation,
+} from "../types/state";
+import { networkRegistry } from "./networks";
+import { logger } from "./logger";
+
+/**
+ * The part of a chain provider the tracker reads; an ethers Provider satisfies it
+ */
+export interface ReceiptProvider {
+  getBlockNumber(): Promise<number>;
+  getTransactionReceipt(hash: string): Promise<{
+    blockNumber: number;
+    blockHash: string;
+    status: number | null;
+  } | null>;
+}
+
+export interface RpcConfirmationTrackerOptions {
+  /**
+   * JSON-RPC URL per network name
+   */
+  rpcUrls?: Record<string, string>;
+  /**
+   * Provider per network name; takes precedence over rpcUrls
+   */
+  providers?: Record<string, ReceiptProvider>;
+  /**
+   * Confirmations after which a payment is final, counting its own block (defaults to 1)
+   */
+  confirmations?: number;
+  /**
+   * Delay between polls, in milliseconds (defaults to 2 seconds)
+   */
+  pollIntervalMs?: number;
+  /**
+   * How long to wait for the required confirmations before reporting the
+   * payment unconfirmed, in milliseconds (defaults to 10 minutes)
+   */
+  timeoutMs?: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Polls a chain RPC for the settlement transaction's receipt.
+ *
+ * A receipt that disappears after it was seen means the block was reorged
+ * out; that is reported as final, since the payment can no longer be counted
+ * on. A receipt that moves to another block is simply followed. RPC errors
+ * are logged and retried until the timeout.
+ */
+export class RpcConfirmationTracker implements ConfirmationTracker {
+  private providers: Map<string, ReceiptProvider> = new Map();
+  private confirmations: number;
+  private pollIntervalMs: number;
+  private timeoutMs: number;
+
+  constructor(options: RpcConfirmationTrackerOptions) {
+    for (const [network, rpcUrl] of Object.entries(options.rpcUrls || {})) {
+      const chainId = networkRegistry.getChainId(network);
+      this.providers.set(
+        network,
+        new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true })
+      );
+    }
+    for (const [network, provider] of Object.entries(options.providers || {})) {
+      this.providers.set(network, provider);
+    }
+    this.confirmations = options.confirmations ?? 1;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.timeoutMs = options.timeoutMs ?? 10 * 60 * 1000;
+  }
+
+  async track(
+    settleResponse: SettleResponse,
+    onUpdate?: (confirmation: SettlementConfirmation) => void | Promise<void>
+  ): Promise<SettlementConfirmation> {
+    const { transaction, network } = settleResponse;
+    const base = {
+      transaction,
+      network,
+      requiredConfirmations: this.confirmations,
+    };
+
+    let last: SettlementConfirmation | undefined;
+    const report = async (
+      confirmation: SettlementConfirmation
+    ): Promise<SettlementConfirmation> => {
+      const changed =
+        !last ||
+        last.status !== confirmation.status ||
+        last.confirmations !== confirmation.confirmations ||
+        last.blockHash !== confirmation.blockHash;
+      last = confirmation;
+      if (changed) {
+        await onUpdate?.(confirmation);
+      }
+      return confirmation;
+    };
+
+    if (!transaction) {
+      logger.warn(`Settlement on ${network} has no transaction to track`);
+      return report({ ...base, status: ConfirmationStatus.UNCONFIRMED, confirmations: 0 });
+    }
+    const provider = this.providers.get(network);
+    if (!provider) {
+      throw new Error(`No RPC provider configured for network "${network}"`);
+    }
+
+    const deadline = Date.now() + this.timeoutMs;
+    let mined = false;
+    while (true) {
+      try {
+        const receipt = await provider.getTransactionReceipt(transaction);
+        if (!receipt) {
+          if (mined) {
+            logger.warn(`Transaction ${transaction} was reorged out of ${network}`);
+            return report({ ...base, status: ConfirmationStatus.REORGED, confirmations: 0 });
+          }
+          await report({ ...base, status: ConfirmationStatus.PENDING, confirmations: 0 });
+        } else {
+          mined = true;
+          const head = await provider.getBlockNumber();
+          const confirmation: SettlementConfirmation = {
+            ...base,
+            status: ConfirmationStatus.PENDING,
+            blockNumber: receipt.blockNumber,
+            blockHash: receipt.blockHash,
+            confirmations: Math.max(head - receipt.blockNumber + 1, 1),
+          };
+          if (receipt.status === 0) {
+            return report({ ...confirmation, status: ConfirmationStatus.REVERTED });
+          }
+          if (confirmation.confirmations >= this.confirmations) {
+            return report({ ...confirmation, status: ConfirmationStatus.CONFIRMED });
+          }
+          await report(confirmation);
+        }
+      } catch (error) {
+        logger.warn(`Could not poll ${network} for transaction ${transaction}:`, error);
+      }
+
+      if (Date.now() >= deadline) {
+        return report({
+          ...(last || { ...base, confirmations: 0 }),
+          status: ConfirmationStatus.UNCONFIRMED,
+        });
+      }
+      await sleep(this.pollIntervalMs);
+    }
+  }
+}
+
+/**
+ * Stand-in for a chain: reports every settlement confirmed at once. Pairs
+ * with LocalFacilitatorClient, whose settlements have no transaction.
+ */
+export class LocalConfirmationTracker implements ConfirmationTracker {
+  private confirmations: number;
+
+  constructor(confirmations: number = 1) {
+    this.confirmations = confirmations;
+  }
+
+  async track(
+    settleResponse: SettleResponse,
+    onUpdate?: (confirmation: SettlementConfirmation) => void | Promise<void>
+  ): Promise<SettlementConfirmation> {
+    const confirmation: SettlementConfirmation = {
+      status: ConfirmationStatus.CONFIRMED,
+      transaction: settleResponse.transaction,
+      network: settleResponse.network,
+      confirmations: this.confirmations,
+      requiredConfirmations: this.confirmations,
+    };
+    await onUpdate?.(confirmation);
+    return confirmation;
+  }
+}
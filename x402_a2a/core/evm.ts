@@ -0,0 +1,297 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * FacilitatorClient that verifies and settles EIP-3009 authorizations on an EVM chain
+ */
+
+import {
+  Contract,
+  ContractTransactionResponse,
+  JsonRpcProvider,
+  Provider,
+  Signature,
+  Wallet,
+  isError,
+} from "ethers";
+import {
+  FacilitatorClient,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  VerifyResponse,
+} from "../types/state";
+import { FacilitatorUnavailableError } from "../types/errors";
+import { LocalFacilitatorClient } from "./facilitator";
+import { networkRegistry } from "./networks";
+import { logger } from "./logger";
+
+/**
+ * EIP-3009 functions of the token contract (e.g. USDC's FiatTokenV2)
+ */
+export const EIP3009_ABI = [
+  "function balanceOf(address account) view returns (uint256)",
+  "function authorizationState(address authorizer, bytes32 nonce) view returns (bool)",
+  "function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)",
+];
+
+export interface EvmFacilitatorOptions {
+  /**
+   * JSON-RPC URL per network name; every network must be known to the network registry
+   */
+  rpcUrls?: Record<string, string>;
+  /**
+   * JSON-RPC URL used for networks without an entry in rpcUrls. The node's
+   * chain ID is checked against each payment's network.
+   */
+  rpcUrl?: string;
+  /**
+   * Key of the account that submits settlements and pays gas. Without it
+   * payments can be verified but not settled.
+   */
+  privateKey?: string;
+  /**
+   * Blocks to wait for after the settlement transaction is mined (defaults to 1)
+   */
+  confirmations?: number;
+  /**
+   * Clock used for the validAfter/validBefore window, in unix seconds
+   */
+  now?: () => number;
+}
+
+/**
+ * Whether a chain call failed because the contract answered, rather than
+ * because the node could not be reached
+ */
+function isContractError(error: unknown): boolean {
+  return isError(error, "CALL_EXCEPTION") || isError(error, "BAD_DATA");
+}
+
+function describe(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Checks the signature offline, then that the nonce is unused on the token
+ * contract and the payer holds the funds, and settles by submitting
+ * transferWithAuthorization from the settlement account.
+ *
+ * A node that cannot be reached before the transaction is sent raises
+ * FacilitatorUnavailableError rather than an invalid verdict. Once the
+ * settlement transaction is broadcast its hash is reported even if waiting
+ * for the receipt fails, so the caller can reconcile it. A transaction that
+ * reverts is a failed settlement, reported with its hash.
+ */
+export class EvmFacilitatorClient implements FacilitatorClient {
+  private providers: Map<string, Provider> = new Map();
+  private defaultProvider?: Provider;
+  private privateKey?: string;
+  private confirmations: number;
+  private offlineChecks: LocalFacilitatorClient;
+
+  constructor(options: EvmFacilitatorOptions) {
+    for (const [network, rpcUrl] of Object.entries(options.rpcUrls || {})) {
+      // Fails early on networks without a chain ID to sign against
+      const chainId = networkRegistry.getChainId(network);
+      this.providers.set(
+        network,
+        new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true })
+      );
+    }
+    if (options.rpcUrl) {
+      this.defaultProvider = new JsonRpcProvider(options.rpcUrl);
+    }
+    this.privateKey = options.privateKey;
+    this.confirmations = options.confirmations ?? 1;
+    this.offlineChecks = new LocalFacilitatorClient({ now: options.now });
+  }
+
+  /**
+   * Networks with their own RPC URL
+   */
+  getNetworks(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  async verify(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<VerifyResponse> {
+    // Scheme, network, recipient, amount, validity window and signature checks
+    const offline = await this.offlineChecks.verify(payload, requirements);
+    if (!offline.isValid) {
+      return offline;
+    }
+
+    const { authorization } = payload.payload;
+    const payer = authorization.from;
+    const provider =
+      this.providers.get(requirements.network) || this.defaultProvider;
+    if (!provider) {
+      return { isValid: false, invalidReason: "invalid_network", payer };
+    }
+
+    try {
+      // The signature commits to a chain ID, so the node must be on that chain
+      const { chainId } = await provider.getNetwork();
+      const expectedChainId = networkRegistry.getChainId(requirements.network);
+      if (Number(chainId) !== expectedChainId) {
+        return {
+          isValid: false,
+          invalidReason: `invalid_network: RPC node is on chain ${chainId}, "${requirements.network}" is chain ${expectedChainId}`,
+          payer,
+        };
+      }
+
+      const token = new Contract(requirements.asset, EIP3009_ABI, provider);
+
+      const used: boolean = await token.authorizationState(payer, authorization.nonce);
+      if (used) {
+        return {
+          isValid: false,
+          invalidReason: "invalid_exact_evm_payload_authorization_nonce_used",
+          payer,
+        };
+      }
+
+      const balance: bigint = await token.balanceOf(payer);
+      const value = BigInt(authorization.value);
+      if (balance < value) {
+        return {
+          isValid: false,
+          invalidReason: `insufficient_funds: has ${balance.toString()}, needs ${value.toString()}`,
+          payer,
+        };
+      }
+
+      return { isValid: true, payer };
+    } catch (error) {
+      if (isContractError(error)) {
+        return {
+          isValid: false,
+          invalidReason: `invalid_exact_evm_payload_asset: ${describe(error)}`,
+          payer,
+        };
+      }
+      throw new FacilitatorUnavailableError(
+        `Could not reach ${requirements.network} to verify the payment: ${describe(error)}`,
+        "network"
+      );
+    }
+  }
+
+  async settle(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<SettleResponse> {
+    if (!this.privateKey) {
+      return {
+        success: false,
+        network: requirements.network,
+        errorReason: "Settlement account not configured",
+      };
+    }
+
+    // Re-check right before spending gas: the nonce may have been used since verify
+    const verification = await this.verify(payload, requirements);
+    if (!verification.isValid) {
+      return {
+        success: false,
+        network: requirements.network,
+        payer: verification.payer,
+        errorReason: verification.invalidReason,
+      };
+    }
+
+    const provider =
+      this.providers.get(requirements.network) || this.defaultProvider!;
+    const account = new Wallet(this.privateKey, provider);
+    const { authorization, signature } = payload.payload;
+    const payer = authorization.from;
+
+    let tx: ContractTransactionResponse;
+    try {
+      const token = new Contract(requirements.asset, EIP3009_ABI, account);
+      const { v, r, s } = Signature.from(signature);
+      tx = await token.transferWithAuthorization(
+        authorization.from,
+        authorization.to,
+        authorization.value,
+        authorization.validAfter,
+        authorization.validBefore,
+        authorization.nonce,
+        v,
+        r,
+        s
+      );
+    } catch (error) {
+      if (!isContractError(error)) {
+        throw new FacilitatorUnavailableError(
+          `Could not reach ${requirements.network} to settle the payment: ${describe(error)}`,
+          "network"
+        );
+      }
+      logger.error(`Settlement on ${requirements.network} was rejected:`, error);
+      return {
+        success: false,
+        network: requirements.network,
+        payer,
+        errorReason: describe(error),
+      };
+    }
+    const hash = tx.hash;
+    logger.log(`Settlement sent on ${requirements.network}: ${hash}`);
+
+    try {
+      const receipt = await tx.wait(this.confirmations);
+      if (!receipt || receipt.status !== 1) {
+        return {
+          success: false,
+          transaction: hash,
+          network: requirements.network,
+          payer,
+          errorReason: `Transaction failed. TX: ${hash}`,
+        };
+      }
+    } catch (error) {
+      // ethers raises CALL_EXCEPTION for a transaction that was mined but reverted
+      if (isError(error, "CALL_EXCEPTION")) {
+        logger.error(`Settlement ${hash} on ${requirements.network} reverted:`, error);
+        return {
+          success: false,
+          transaction: hash,
+          network: requirements.network,
+          payer,
+          errorReason: `Transaction reverted${error.reason ? `: ${error.reason}` : ""}. TX: ${hash}`,
+        };
+      }
+      logger.error(`Settlement ${hash} on ${requirements.network} has no receipt:`, error);
+      return {
+        success: false,
+        transaction: hash,
+        network: requirements.network,
+        payer,
+        errorReason: `Transaction ${hash} was sent but its receipt could not be read: ${describe(error)}`,
+      };
+    }
+
+    logger.log(`Settled ${authorization.value} from ${payer}. TX: ${hash}`);
+    return {
+      success: true,
+      transaction: hash,
+      network: requirements.network,
+      payer,
+    };
+  }
+}
@@ -12,10 +12,11 @@
 // limitations under the License.
 
 /**
- * Default FacilitatorClient implementation
+ * FacilitatorClient implementations
  * Connects to https://x402.org/facilitator by default (matches Python behavior)
  */
 
+import { verifyTypedData } from 'ethers';
 import {
   FacilitatorClient,
   FacilitatorConfig,
@@ -23,15 +24,112 @@ import {
   PaymentRequirements,
   VerifyResponse,
   SettleResponse,
+  SupportedPaymentKind,
+  SupportedResponse,
+  FacilitatorHealth,
 } from '../types/state';
+import {
+  FacilitatorRequestError,
+  FacilitatorUnavailableError,
+  PaymentError,
+} from '../types/errors';
+import {
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  getTransferWithAuthorizationDomain,
+} from './wallet';
+import { CircuitBreaker } from './circuitBreaker';
+import { logger } from './logger';
+
+const DEFAULT_SUPPORTED_CACHE_TTL_MS = 5 * 60 * 1000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BACKOFF_MS = 250;
+
+interface RequestOptions {
+  method: 'GET' | 'POST';
+  body?: unknown;
+  /**
+   * Retry transport failures; only set when repeating the call is harmless
+   */
+  retry: boolean;
+  idempotencyKey?: string;
+  /**
+   * Whether a 4xx body is a verdict to return rather than a refusal
+   */
+  isVerdict?: (data: any) => boolean;
+}
+
+/**
+ * Connection errors raised before any request byte is sent
+ */
+const UNREACHABLE_CODES = new Set([
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+]);
+
+/**
+ * Whether fetch failed because no connection could be opened
+ */
+function isUnreachable(error: unknown): boolean {
+  const cause = (error as { cause?: { code?: string; errors?: { code?: string }[] } })?.cause;
+  if (!cause) {
+    return false;
+  }
+  if (cause.code && UNREACHABLE_CODES.has(cause.code)) {
+    return true;
+  }
+  // Address family fallback reports one error per address tried
+  return (
+    Array.isArray(cause.errors) &&
+    cause.errors.length > 0 &&
+    cause.errors.every((inner) => !!inner.code && UNREACHABLE_CODES.has(inner.code))
+  );
+}
+
+function isUnreachableError(error: PaymentError): boolean {
+  return error instanceof FacilitatorUnavailableError && error.reason === 'unreachable';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Key identifying one settlement: an EIP-3009 authorization can move funds only once
+ */
+function getSettlementKey(payload: PaymentPayload): string | undefined {
+  const authorization = payload.payload?.authorization;
+  if (!authorization?.from || !authorization?.nonce) {
+    return undefined;
+  }
+  return `${payload.network}:${authorization.from}:${authorization.nonce}`.toLowerCase();
+}
 
 /**
  * Default FacilitatorClient that connects to https://x402.org/facilitator
  * This matches the Python implementation behavior where FacilitatorClient(None)
  * creates a default client pointing to the official facilitator service.
+ *
+ * Each attempt is bounded by a timeout. Timeouts, connection and network
+ * errors and 5xx/429 responses are retried with exponential backoff: always for verify and
+ * /supported, and for settle only with an Idempotency-Key derived from the
+ * authorization. Repeated failures open a circuit breaker that fails calls
+ * fast; see getHealth(). A facilitator that cannot answer raises
+ * FacilitatorUnavailableError rather than returning an invalid verdict.
+ *
+ * Other 4xx responses are answers, not outages: a body carrying a verdict is
+ * returned as one, anything else raises FacilitatorRequestError. Neither is
+ * retried or counts against the circuit breaker.
  */
 export class DefaultFacilitatorClient implements FacilitatorClient {
   private config: FacilitatorConfig;
+  private breaker: CircuitBreaker;
+  private supportedCache?: { response: SupportedResponse; expiresAt: number };
+  private supportedRequest?: Promise<SupportedResponse>;
+  private pendingSettlements: Map<string, Promise<SettleResponse>> = new Map();
 
   constructor(config?: FacilitatorConfig) {
     // Default to x402.org facilitator if no config provided
@@ -45,88 +143,424 @@ export class DefaultFacilitatorClient implements FacilitatorClient {
     this.config = {
       url: url.endsWith('/') ? url.slice(0, -1) : url,
       apiKey: config?.apiKey,
+      supportedCacheTtlMs: config?.supportedCacheTtlMs ?? DEFAULT_SUPPORTED_CACHE_TTL_MS,
+      timeoutMs: config?.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+      maxRetries: config?.maxRetries ?? DEFAULT_MAX_RETRIES,
+      retryBackoffMs: config?.retryBackoffMs ?? DEFAULT_RETRY_BACKOFF_MS,
     };
+    this.breaker = new CircuitBreaker({
+      failureThreshold: config?.circuitBreakerThreshold,
+      resetTimeoutMs: config?.circuitBreakerResetMs,
+    });
+  }
+
+  /**
+   * Circuit breaker state of this facilitator
+   */
+  getHealth(): FacilitatorHealth {
+    return this.breaker.getHealth();
+  }
+
+  /**
+   * Fetches GET /supported, reusing the last response until its TTL expires.
+   * Concurrent callers share one request. Throws if the facilitator cannot be asked.
+   */
+  async supported(): Promise<SupportedResponse> {
+    if (this.supportedCache && this.supportedCache.expiresAt > Date.now()) {
+      return this.supportedCache.response;
+    }
+    if (!this.supportedRequest) {
+      this.supportedRequest = this.fetchSupported().finally(() => {
+        this.supportedRequest = undefined;
+      });
+    }
+    return this.supportedRequest;
+  }
+
+  private async fetchSupported(): Promise<SupportedResponse> {
+    const data = await this.request('/supported', { method: 'GET', retry: true });
+    if (!Array.isArray(data?.kinds)) {
+      throw new FacilitatorUnavailableError(
+        'Facilitator /supported response has no kinds',
+        'invalid-response'
+      );
+    }
+    const supported: SupportedResponse = {
+      kinds: data.kinds.map((kind: any) => ({
+        x402Version: kind.x402Version ?? kind.x402_version,
+        scheme: kind.scheme,
+        network: kind.network,
+      })),
+    };
+
+    this.supportedCache = {
+      response: supported,
+      expiresAt: Date.now() + this.config.supportedCacheTtlMs!,
+    };
+    return supported;
   }
 
   async verify(
     payload: PaymentPayload,
     requirements: PaymentRequirements
   ): Promise<VerifyResponse> {
+    const data = await this.request('/verify', {
+      method: 'POST',
+      body: {
+        x402Version: payload.x402Version,
+        paymentPayload: payload,
+        paymentRequirements: requirements,
+      },
+      retry: true,
+      isVerdict: (data) =>
+        typeof (data?.isValid ?? data?.is_valid) === 'boolean',
+    });
+    return {
+      isValid: data.isValid || data.is_valid || false,
+      payer: data.payer,
+      invalidReason: data.invalidReason || data.invalid_reason,
+    };
+  }
+
+  async settle(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<SettleResponse> {
+    const key = getSettlementKey(payload);
+    if (!key) {
+      return this.submitSettlement(payload, requirements);
+    }
+
+    // The same authorization is never submitted twice concurrently
+    let pending = this.pendingSettlements.get(key);
+    if (!pending) {
+      pending = this.submitSettlement(payload, requirements, key).finally(() => {
+        this.pendingSettlements.delete(key);
+      });
+      this.pendingSettlements.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async submitSettlement(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements,
+    idempotencyKey?: string
+  ): Promise<SettleResponse> {
+    const data = await this.request('/settle', {
+      method: 'POST',
+      body: {
+        x402Version: payload.x402Version,
+        paymentPayload: payload,
+        paymentRequirements: requirements,
+      },
+      retry: idempotencyKey !== undefined,
+      idempotencyKey,
+      isVerdict: (data) => typeof data?.success === 'boolean',
+    });
+    return {
+      success: data.success || false,
+      transaction: data.transaction || data.transactionHash,
+      network: data.network || requirements.network,
+      payer: data.payer,
+      errorReason: data.errorReason || data.error_reason,
+    };
+  }
+
+  /**
+   * Calls the facilitator through the circuit breaker, retrying transport
+   * failures when allowed, and returns the parsed JSON body
+   */
+  private async request(path: string, options: RequestOptions): Promise<any> {
+    if (!this.breaker.tryAcquire()) {
+      throw new FacilitatorUnavailableError(
+        `Facilitator ${this.config.url} is unavailable: circuit open after ${this.breaker.getHealth().consecutiveFailures} failures`,
+        'circuit-open'
+      );
+    }
+
+    const attempts = options.retry ? this.config.maxRetries! + 1 : 1;
+    let lastError!: PaymentError;
+    // An earlier attempt that may have reached the facilitator, which a
+    // later connection failure must not hide
+    let reachedError: PaymentError | undefined;
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) {
+        await sleep(this.config.retryBackoffMs! * 2 ** (attempt - 1));
+        logger.warn(`Retrying facilitator ${path} (attempt ${attempt + 1} of ${attempts}): ${lastError.message}`);
+      }
+
+      try {
+        const data = await this.attempt(path, options);
+        this.breaker.recordSuccess();
+        return data;
+      } catch (error) {
+        lastError = error as PaymentError;
+        if (!isUnreachableError(lastError)) {
+          reachedError = lastError;
+        }
+        if (!this.isRetryable(lastError)) {
+          break;
+        }
+      }
+    }
+    if (reachedError && isUnreachableError(lastError)) {
+      lastError = reachedError;
+    }
+
+    if (
+      this.isRetryable(lastError) ||
+      (lastError instanceof FacilitatorUnavailableError &&
+        lastError.reason === 'invalid-response')
+    ) {
+      this.breaker.recordFailure(lastError.message);
+    } else {
+      // The facilitator answered, it just refused this request
+      this.breaker.recordSuccess();
+    }
+    throw lastError;
+  }
+
+  private async attempt(path: string, options: RequestOptions): Promise<any> {
+    let response: Response;
     try {
-      const response = await fetch(`${this.config.url}/verify`, {
-        method: 'POST',
+      response = await fetch(`${this.config.url}${path}`, {
+        method: options.method,
         headers: {
-          'Content-Type': 'application/json',
+          ...(options.body !== undefined && { 'Content-Type': 'application/json' }),
           ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
+          ...(options.idempotencyKey && { 'Idempotency-Key': options.idempotencyKey }),
         },
-        body: JSON.stringify({
-          x402Version: payload.x402Version,
-          paymentPayload: payload,
-          paymentRequirements: requirements,
-        }),
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: AbortSignal.timeout(this.config.timeoutMs!),
       });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new FacilitatorUnavailableError(
+          `Facilitator ${path} timed out after ${this.config.timeoutMs}ms`,
+          'timeout'
+        );
+      }
+      if (isUnreachable(error)) {
+        throw new FacilitatorUnavailableError(
+          `Could not connect to facilitator ${path}: ${(error as Error).message}`,
+          'unreachable'
+        );
+      }
+      throw new FacilitatorUnavailableError(
+        `Network error calling facilitator ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        'network'
+      );
+    }
 
-      if (!response.ok) {
-        return {
-          isValid: false,
-          invalidReason: `HTTP ${response.status}: ${response.statusText}`,
-        };
+    if (response.status >= 500 || response.status === 429) {
+      throw new FacilitatorUnavailableError(
+        `Facilitator ${path} failed: HTTP ${response.status}: ${response.statusText}`,
+        'http',
+        response.status
+      );
+    }
+    if (!response.ok) {
+      const data: any = await response.json().catch(() => undefined);
+      if (options.isVerdict?.(data)) {
+        return data;
       }
+      const detail = data?.error || data?.message || response.statusText;
+      throw new FacilitatorRequestError(
+        `Facilitator ${path} refused the request: HTTP ${response.status}: ${detail}`,
+        response.status
+      );
+    }
 
-      const data = await response.json() as any;
-      return {
-        isValid: data.isValid || data.is_valid || false,
-        payer: data.payer,
-        invalidReason: data.invalidReason || data.invalid_reason,
-      };
+    try {
+      return await response.json();
     } catch (error) {
-      return {
-        isValid: false,
-        invalidReason: `Network error: ${error instanceof Error ? error.message : String(error)}`,
-      };
+      throw new FacilitatorUnavailableError(
+        `Facilitator ${path} returned invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        'invalid-response'
+      );
     }
   }
 
-  async settle(
+  private isRetryable(error: PaymentError): boolean {
+    if (!(error instanceof FacilitatorUnavailableError)) {
+      return false;
+    }
+    if (error.reason === 'timeout' || error.reason === 'network' || error.reason === 'unreachable') {
+      return true;
+    }
+    return error.reason === 'http' && (error.status! >= 500 || error.status === 429);
+  }
+}
+
+/**
+ * Whether a requirement's scheme and network are among the supported kinds
+ */
+export function isSupportedRequirement(
+  kinds: SupportedPaymentKind[],
+  requirement: PaymentRequirements,
+  x402Version: number = 1
+): boolean {
+  return kinds.some(
+    (kind) =>
+      kind.x402Version === x402Version &&
+      kind.scheme === requirement.scheme &&
+      kind.network === requirement.network
+  );
+}
+
+/**
+ * Keeps the accepts entries the facilitator can settle. Facilitators without
+ * supported(), or whose supported kinds cannot be fetched, keep every entry:
+ * verification still rejects what they cannot handle.
+ */
+export async function filterSupportedRequirements(
+  accepts: PaymentRequirements[],
+  facilitator: FacilitatorClient,
+  x402Version: number = 1
+): Promise<PaymentRequirements[]> {
+  if (!facilitator.supported) {
+    return accepts;
+  }
+
+  let kinds: SupportedPaymentKind[];
+  try {
+    ({ kinds } = await facilitator.supported());
+  } catch (error) {
+    logger.warn(
+      `Could not fetch the facilitator's supported kinds, keeping all ${accepts.length} accepts entries:`,
+      error
+    );
+    return accepts;
+  }
+
+  return accepts.filter((requirement) => {
+    const supported = isSupportedRequirement(kinds, requirement, x402Version);
+    if (!supported) {
+      logger.warn(
+        `Facilitator cannot settle "${requirement.scheme}" payments on "${requirement.network}", dropping that option`
+      );
+    }
+    return supported;
+  });
+}
+
+export interface LocalFacilitatorOptions {
+  /**
+   * Clock used for the validAfter/validBefore window, in unix seconds
+   */
+  now?: () => number;
+}
+
+/**
+ * FacilitatorClient that verifies "exact" EIP-3009 payloads locally, without a network.
+ *
+ * The signer of the TransferWithAuthorization typed data is recovered against the
+ * domain derived from the requirements (chainId of the network, asset as
+ * verifyingContract) and must match authorization.from. Settlement is not
+ * broadcast: a payload that still verifies is reported as settled without a
+ * transaction hash.
+ */
+export class LocalFacilitatorClient implements FacilitatorClient {
+  private now: () => number;
+
+  constructor(options?: LocalFacilitatorOptions) {
+    this.now = options?.now || (() => Math.floor(Date.now() / 1000));
+  }
+
+  async verify(
     payload: PaymentPayload,
     requirements: PaymentRequirements
-  ): Promise<SettleResponse> {
+  ): Promise<VerifyResponse> {
+    const authorization = payload.payload?.authorization;
+    const signature = payload.payload?.signature;
+    const payer = authorization?.from;
+
+    const invalid = (invalidReason: string): VerifyResponse => ({
+      isValid: false,
+      payer,
+      invalidReason,
+    });
+
+    if (payload.scheme !== requirements.scheme || payload.scheme !== 'exact') {
+      return invalid('unsupported_scheme');
+    }
+    if (payload.network !== requirements.network) {
+      return invalid('invalid_network');
+    }
+    if (!authorization || typeof signature !== 'string') {
+      return invalid('invalid_exact_evm_payload');
+    }
+
+    if (authorization.to?.toLowerCase() !== requirements.payTo.toLowerCase()) {
+      return invalid('invalid_exact_evm_payload_recipient_mismatch');
+    }
+
+    let value: bigint;
     try {
-      const response = await fetch(`${this.config.url}/settle`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(this.config.apiKey && { 'Authorization': `Bearer ${this.config.apiKey}` }),
-        },
-        body: JSON.stringify({
-          x402Version: payload.x402Version,
-          paymentPayload: payload,
-          paymentRequirements: requirements,
-        }),
-      });
+      value = BigInt(authorization.value);
+    } catch {
+      return invalid('invalid_exact_evm_payload_authorization_value');
+    }
+    if (value < BigInt(requirements.maxAmountRequired)) {
+      return invalid('invalid_exact_evm_payload_authorization_value');
+    }
 
-      if (!response.ok) {
-        return {
-          success: false,
-          network: requirements.network,
-          errorReason: `HTTP ${response.status}: ${response.statusText}`,
-        };
-      }
+    const now = this.now();
+    if (Number(authorization.validBefore) <= now) {
+      return invalid('invalid_exact_evm_payload_authorization_valid_before');
+    }
+    if (Number(authorization.validAfter) > now) {
+      return invalid('invalid_exact_evm_payload_authorization_valid_after');
+    }
 
-      const data = await response.json() as any;
-      return {
-        success: data.success || false,
-        transaction: data.transaction || data.transactionHash,
-        network: data.network || requirements.network,
-        payer: data.payer,
-        errorReason: data.errorReason || data.error_reason,
-      };
+    let recovered: string;
+    try {
+      const domain = getTransferWithAuthorizationDomain(requirements);
+      recovered = verifyTypedData(
+        domain,
+        TRANSFER_WITH_AUTHORIZATION_TYPES,
+        {
+          from: authorization.from,
+          to: authorization.to,
+          value: authorization.value,
+          validAfter: authorization.validAfter,
+          validBefore: authorization.validBefore,
+          nonce: authorization.nonce,
+        },
+        signature
+      );
     } catch (error) {
+      return invalid(
+        `invalid_exact_evm_payload_signature: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (recovered.toLowerCase() !== authorization.from?.toLowerCase()) {
+      return invalid('invalid_exact_evm_payload_signature');
+    }
+
+    return { isValid: true, payer };
+  }
+
+  async settle(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<SettleResponse> {
+    const verifyResponse = await this.verify(payload, requirements);
+    if (!verifyResponse.isValid) {
       return {
         success: false,
         network: requirements.network,
-        errorReason: `Network error: ${error instanceof Error ? error.message : String(error)}`,
+        payer: verifyResponse.payer,
+        errorReason: verifyResponse.invalidReason,
       };
     }
+
+    return {
+      success: true,
+      network: requirements.network,
+      payer: verifyResponse.payer,
+    };
   }
 }
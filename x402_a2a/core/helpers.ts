@@ -22,6 +22,8 @@ import {
 import { PaymentRequirements, SupportedNetworks } from "../types/state";
 import { Price, TokenAmount } from "../types/config";
 import { createPaymentRequirements } from "./merchant";
+import { networkRegistry } from "./networks";
+import { parseMoney, scaleAtomicAmount } from "./money";
 
 /**
  * Create a payment required exception for immediate raising
@@ -95,16 +97,21 @@ export async function createTieredPaymentOptions(
   for (const tier of tiersToUse) {
     const { multiplier, suffix, description } = tier;
 
-    // Calculate tier price
-    let tierPrice: Price;
-    if (typeof basePrice === "string" && basePrice.startsWith("$")) {
-      const baseAmount = parseFloat(basePrice.slice(1));
-      tierPrice = `$${(baseAmount * multiplier).toFixed(2)}`;
-    } else if (typeof basePrice === "number") {
-      tierPrice = basePrice * multiplier;
+    // Calculate tier price exactly in atomic units of the asset
+    let tierPrice: TokenAmount;
+    if (typeof basePrice === "string" || typeof basePrice === "number") {
+      const asset = networkRegistry.getDefaultAsset(network);
+      const { amount } = parseMoney(basePrice, asset.decimals, asset.symbol);
+      tierPrice = {
+        value: scaleAtomicAmount(amount, multiplier).toString(),
+        asset: asset.address,
+        network,
+      };
     } else {
-      // TokenAmount - would need to implement multiplication
-      tierPrice = basePrice;
+      tierPrice = {
+        ...basePrice,
+        value: scaleAtomicAmount(basePrice.value, multiplier).toString(),
+      };
     }
 
     const tierResource = suffix ? `${resource}/${suffix}` : resource;
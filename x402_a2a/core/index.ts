@@ -15,12 +15,109 @@
  * Core exports
  */
 
+export {
+  NetworkRegistry,
+  networkRegistry,
+  registerNetwork,
+  registerAsset,
+  DEFAULT_NETWORKS,
+} from "./networks";
+export {
+  parseMoney,
+  toAtomicAmount,
+  formatAtomicAmount,
+  scaleAtomicAmount,
+  ParsedMoney,
+} from "./money";
 export { createPaymentRequirements } from "./merchant";
-export { processPayment, processPaymentRequired } from "./wallet";
+export {
+  processPayment,
+  processPaymentRequired,
+  selectPaymentRequirement,
+  ProcessPaymentOptions,
+  SelectPaymentRequirementOptions,
+} from "./wallet";
+export {
+  WalletSigner,
+  EthersSigner,
+  KeystoreSigner,
+  RemoteSigner,
+  RemoteSignerOptions,
+  createSigningServiceHandler,
+  SigningServiceOptions,
+} from "./signer";
+export {
+  FirstOptionSelector,
+  CheapestSelector,
+  CheapestSelectorOptions,
+  PreferredNetworkSelector,
+  PreferredAssetSelector,
+  BalanceSelector,
+  BalanceLookup,
+  CompositeSelector,
+  createErc20BalanceLookup,
+} from "./selector";
 export { verifyPayment, settlePayment } from "./protocol";
-export { DefaultFacilitatorClient } from "./facilitator";
+export {
+  DefaultFacilitatorClient,
+  LocalFacilitatorClient,
+  LocalFacilitatorOptions,
+  isSupportedRequirement,
+  filterSupportedRequirements,
+} from "./facilitator";
+export {
+  EvmFacilitatorClient,
+  EvmFacilitatorOptions,
+  EIP3009_ABI,
+} from "./evm";
+export { CircuitBreaker, CircuitBreakerOptions } from "./circuitBreaker";
+export {
+  RoutingFacilitatorClient,
+  FacilitatorRoute,
+  RoutingFacilitatorOptions,
+} from "./routing";
+export {
+  InMemoryPaymentRequirementsStore,
+  FilePaymentRequirementsStore,
+  InMemoryNonceLedger,
+  FileNonceLedger,
+  getNonceLedgerKey,
+  InMemorySpendHistory,
+  FileSpendHistory,
+  InMemoryTaskStore,
+  FileTaskStore,
+} from "./store";
+export {
+  SpendingPolicy,
+  SpendingDecision,
+  SpendingPolicyOptions,
+} from "./policy";
+export { BufferedEventQueue } from "./queue";
+export {
+  RpcConfirmationTracker,
+  RpcConfirmationTrackerOptions,
+  LocalConfirmationTracker,
+  ReceiptProvider,
+} from "./confirmations";
+export {
+  validatePaymentPayload,
+  checkPaymentPayloadStructure,
+  PaymentValidationOptions,
+  PaymentValidationResult,
+} from "./validation";
+export {
+  PaymentRequirementsSchema,
+  x402PaymentRequiredResponseSchema,
+  PaymentPayloadSchema,
+  SettleResponseSchema,
+  checkSchema,
+  parseWithSchema,
+  Schema,
+  SchemaIssue,
+} from "./schemas";
 export {
   x402Utils,
+  x402UtilsOptions,
   createPaymentSubmissionMessage,
   extractTaskId,
 } from "./utils";
@@ -34,8 +131,10 @@ export {
 } from "./helpers";
 export {
   getExtensionDeclaration,
+  getRequestedExtensions,
   checkExtensionActivation,
   addExtensionActivationHeader,
   createX402AgentCard,
   ExtensionDeclaration,
 } from "./agent";
+export { createA2AHandler, A2AHandlerOptions } from "./a2aServer";
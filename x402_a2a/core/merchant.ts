@@ -16,40 +16,35 @@
  */
 
 import {
+  FacilitatorClient,
   PaymentRequirements,
   SupportedNetworks,
 } from "../types/state";
 import { Price, TokenAmount } from "../types/config";
+import { networkRegistry } from "./networks";
+import { parseMoney, toAtomicAmount } from "./money";
+import { filterSupportedRequirements } from "./facilitator";
 
 interface CreatePaymentRequirementsOptions {
   price: Price;
   payToAddress: string;
   resource: string;
   network?: SupportedNetworks;
+  /**
+   * Registered asset to charge money-style prices in (defaults to the network's first asset)
+   */
+  asset?: string;
   description?: string;
   mimeType?: string;
   scheme?: string;
   maxTimeoutSeconds?: number;
   outputSchema?: any;
   extra?: Record<string, any>;
-}
-
-const SUPPORTED_NETWORKS: readonly SupportedNetworks[] = [
-  "base",
-  "base-sepolia",
-  "ethereum",
-  "polygon",
-  "polygon-amoy",
-];
-
-function assertSupportedNetwork(
-  network: string
-): asserts network is SupportedNetworks {
-  if (!SUPPORTED_NETWORKS.includes(network as SupportedNetworks)) {
-    throw new Error(
-      `Unsupported network "${network}". Supported networks: ${SUPPORTED_NETWORKS.join(", ")}`
-    );
-  }
+  /**
+   * Facilitator that will settle the payment; requirements it reports it
+   * cannot settle are refused
+   */
+  facilitator?: FacilitatorClient;
 }
 
 /**
@@ -57,51 +52,34 @@ function assertSupportedNetwork(
  */
 function processPriceToAtomicAmount(
   price: Price,
-  network: SupportedNetworks
+  network: SupportedNetworks,
+  assetAddress?: string
 ): { maxAmountRequired: string; assetAddress: string; eip712Domain?: any } {
-  // Default USDC addresses by network
-  const USDC_ADDRESSES: Record<SupportedNetworks, string> = {
-    base: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-    "base-sepolia": "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
-    ethereum: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
-    polygon: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
-    "polygon-amoy": "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582",
-  };
-
-  if (typeof price === "string") {
-    // Money format (e.g., "$1.00" or "1.00")
-    const priceStr = price.startsWith("$") ? price.slice(1) : price;
-    const priceFloat = parseFloat(priceStr);
-    // Convert to atomic units (USDC has 6 decimals)
-    const atomicAmount = Math.floor(priceFloat * 1_000_000).toString();
-    const assetAddress = USDC_ADDRESSES[network];
+  if (typeof price === "string" || typeof price === "number") {
+    // Money format (e.g., "$1.00", "1.5 USDC" or 1), charged in the asset's own decimals
+    const asset = assetAddress
+      ? networkRegistry.getAsset(network, assetAddress)
+      : networkRegistry.getDefaultAsset(network);
+    const { amount } = parseMoney(price, asset.decimals, asset.symbol);
 
     return {
-      maxAmountRequired: atomicAmount,
-      assetAddress,
-      eip712Domain: {
-        name: "USDC",
-        version: "2",
-      },
-    };
-  } else if (typeof price === "number") {
-    // Numeric value (treat as USD)
-    const atomicAmount = Math.floor(price * 1_000_000).toString();
-    const assetAddress = USDC_ADDRESSES[network];
-
-    return {
-      maxAmountRequired: atomicAmount,
-      assetAddress,
-      eip712Domain: {
-        name: "USDC",
-        version: "2",
-      },
+      maxAmountRequired: amount.toString(),
+      assetAddress: asset.address,
+      eip712Domain: { ...asset.eip712 },
     };
   } else {
-    // TokenAmount object
+    // TokenAmount object, already in atomic units
+    if (price.network && price.network !== network) {
+      throw new Error(
+        `Price is denominated on network "${price.network}" but requirements are for "${network}"`
+      );
+    }
+    const asset = networkRegistry.findAsset(network, price.asset);
+
     return {
-      maxAmountRequired: price.value,
+      maxAmountRequired: toAtomicAmount(price.value).toString(),
       assetAddress: price.asset,
+      eip712Domain: asset ? { ...asset.eip712 } : undefined,
     };
   }
 }
@@ -117,20 +95,23 @@ export async function createPaymentRequirements(
     payToAddress,
     resource,
     network = "base",
+    asset,
     description = "",
     mimeType = "application/json",
     scheme = "exact",
     maxTimeoutSeconds = 600,
     outputSchema,
     extra,
+    facilitator,
   } = options;
 
-  assertSupportedNetwork(network);
+  // Throws for networks that are not registered
+  networkRegistry.getNetwork(network);
 
   const { maxAmountRequired, assetAddress, eip712Domain } =
-    processPriceToAtomicAmount(price, network);
+    processPriceToAtomicAmount(price, network, asset);
 
-  return {
+  const requirements: PaymentRequirements = {
     scheme,
     network,
     asset: assetAddress,
@@ -141,6 +122,17 @@ export async function createPaymentRequirements(
     mimeType,
     maxTimeoutSeconds,
     outputSchema,
-    extra: extra || eip712Domain,
+    extra: eip712Domain || extra ? { ...eip712Domain, ...extra } : undefined,
   };
+
+  if (facilitator) {
+    const settleable = await filterSupportedRequirements([requirements], facilitator);
+    if (settleable.length === 0) {
+      throw new Error(
+        `The facilitator cannot settle "${scheme}" payments on network "${network}"`
+      );
+    }
+  }
+
+  return requirements;
 }
@@ -0,0 +1,155 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Exact decimal money arithmetic on bigint atomic amounts
+ */
+
+import { ValidationError } from "../types/errors";
+import { AtomicAmount } from "../types/config";
+
+/**
+ * "$1,234.567891", "1.5 USDC", "0.29": optional "$", digits with optional
+ * thousands separators, optional fraction and optional trailing symbol
+ */
+const MONEY_PATTERN =
+  /^\$?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s+([A-Za-z][A-Za-z0-9]*))?$/;
+
+const DECIMAL_PATTERN = /^(\d+)(?:\.(\d+))?$/;
+
+export interface ParsedMoney {
+  /** Amount in the asset's smallest unit */
+  amount: bigint;
+  /** Symbol written after the amount, e.g. "USDC" in "1.5 USDC" */
+  symbol?: string;
+}
+
+function toDecimalString(value: string | number): string {
+  if (typeof value === "number") {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new ValidationError(`Invalid amount ${value}`);
+    }
+    const text = String(value);
+    if (/e/i.test(text)) {
+      throw new ValidationError(
+        `Amount ${value} cannot be represented exactly; pass it as a decimal string`
+      );
+    }
+    return text;
+  }
+  return value.trim();
+}
+
+function scaleFraction(
+  whole: string,
+  fraction: string,
+  decimals: number,
+  input: string | number
+): bigint {
+  const significant = fraction.replace(/0+$/, "");
+  if (significant.length > decimals) {
+    throw new ValidationError(
+      `Amount ${input} has more than ${decimals} decimal places`
+    );
+  }
+  return BigInt(whole + significant.padEnd(decimals, "0"));
+}
+
+/**
+ * Parses a money-style price into atomic units of an asset with the given
+ * decimals. Throws a ValidationError for malformed input, for input with more
+ * precision than the asset supports, and, when expectedSymbol is given, for
+ * a different trailing symbol.
+ */
+export function parseMoney(
+  input: string | number,
+  decimals: number,
+  expectedSymbol?: string
+): ParsedMoney {
+  const text = toDecimalString(input);
+  const match = MONEY_PATTERN.exec(text);
+  if (!match) {
+    throw new ValidationError(`Invalid price "${input}"`);
+  }
+
+  const [, whole, fraction = "", symbol] = match;
+  if (
+    symbol &&
+    expectedSymbol &&
+    symbol.toUpperCase() !== expectedSymbol.toUpperCase()
+  ) {
+    throw new ValidationError(
+      `Price "${input}" is in ${symbol}, expected ${expectedSymbol}`
+    );
+  }
+
+  return {
+    amount: scaleFraction(whole.replace(/,/g, ""), fraction, decimals, input),
+    symbol,
+  };
+}
+
+/**
+ * Converts an amount already in atomic units to a bigint, rejecting
+ * fractional, negative or unsafe values
+ */
+export function toAtomicAmount(value: AtomicAmount): bigint {
+  if (typeof value === "bigint") {
+    if (value < 0n) {
+      throw new ValidationError(`Invalid atomic amount ${value}`);
+    }
+    return value;
+  }
+  if (typeof value === "number") {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new ValidationError(`Invalid atomic amount ${value}`);
+    }
+    return BigInt(value);
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new ValidationError(`Invalid atomic amount "${value}"`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Formats an atomic amount as a decimal string, e.g. 1500000n with 6 decimals is "1.5"
+ */
+export function formatAtomicAmount(amount: AtomicAmount, decimals: number): string {
+  const digits = toAtomicAmount(amount).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+/**
+ * Multiplies an atomic amount by a decimal factor such as 2 or "1.5".
+ * Throws if the result is not a whole number of atomic units.
+ */
+export function scaleAtomicAmount(amount: AtomicAmount, factor: string | number): bigint {
+  const text = toDecimalString(factor);
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match) {
+    throw new ValidationError(`Invalid multiplier "${factor}"`);
+  }
+
+  const [, whole, fraction = ""] = match;
+  const scale = 10n ** BigInt(fraction.length);
+  const product = toAtomicAmount(amount) * BigInt(whole + fraction);
+  if (product % scale !== 0n) {
+    throw new ValidationError(
+      `Multiplying ${amount} by ${factor} does not give a whole number of atomic units`
+    );
+  }
+  return product / scale;
+}
@@ -0,0 +1,255 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Registry of supported networks, their chain IDs and assets
+ */
+
+import { AssetConfig, NetworkConfig } from "../types/config";
+
+export const DEFAULT_NETWORKS: readonly NetworkConfig[] = [
+  {
+    name: "base",
+    chainId: 8453,
+    displayName: "Base",
+    explorerUrl: "https://basescan.org",
+    assets: [
+      {
+        address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+        symbol: "USDC",
+        decimals: 6,
+        eip712: { name: "USD Coin", version: "2" },
+      },
+    ],
+  },
+  {
+    name: "base-sepolia",
+    chainId: 84532,
+    displayName: "Base Sepolia",
+    explorerUrl: "https://sepolia.basescan.org",
+    assets: [
+      {
+        address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        symbol: "USDC",
+        decimals: 6,
+        eip712: { name: "USDC", version: "2" },
+      },
+    ],
+  },
+  {
+    name: "ethereum",
+    chainId: 1,
+    displayName: "Ethereum",
+    explorerUrl: "https://etherscan.io",
+    assets: [
+      {
+        address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
+        symbol: "USDC",
+        decimals: 6,
+        eip712: { name: "USD Coin", version: "2" },
+      },
+    ],
+  },
+  {
+    name: "polygon",
+    chainId: 137,
+    displayName: "Polygon",
+    explorerUrl: "https://polygonscan.com",
+    assets: [
+      {
+        address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+        symbol: "USDC",
+        decimals: 6,
+        eip712: { name: "USD Coin", version: "2" },
+      },
+    ],
+  },
+  {
+    name: "polygon-amoy",
+    chainId: 80002,
+    displayName: "Polygon Amoy",
+    explorerUrl: "https://amoy.polygonscan.com",
+    assets: [
+      {
+        address: "0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582",
+        symbol: "USDC",
+        decimals: 6,
+        eip712: { name: "USDC", version: "2" },
+      },
+    ],
+  },
+];
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Networks the library can quote and sign payments on, keyed by x402 network name
+ */
+export class NetworkRegistry {
+  private networks: Map<string, NetworkConfig> = new Map();
+
+  constructor(networks: readonly NetworkConfig[] = []) {
+    for (const network of networks) {
+      this.registerNetwork(network);
+    }
+  }
+
+  /**
+   * Adds a network, replacing any existing entry with the same name
+   */
+  registerNetwork(network: NetworkConfig): void {
+    if (!network.name) {
+      throw new Error("Network name is required");
+    }
+    if (!Number.isSafeInteger(network.chainId) || network.chainId <= 0) {
+      throw new Error(`Invalid chainId ${network.chainId} for network "${network.name}"`);
+    }
+
+    const existing = this.findNetworkByChainId(network.chainId);
+    if (existing && existing.name !== network.name) {
+      throw new Error(
+        `Chain ID ${network.chainId} is already registered as "${existing.name}"`
+      );
+    }
+
+    this.networks.set(network.name, {
+      ...network,
+      assets: network.assets.map((asset) => ({ ...asset, eip712: { ...asset.eip712 } })),
+    });
+  }
+
+  hasNetwork(name: string): boolean {
+    return this.networks.has(name);
+  }
+
+  findNetwork(name: string): NetworkConfig | undefined {
+    return this.networks.get(name);
+  }
+
+  findNetworkByChainId(chainId: number): NetworkConfig | undefined {
+    for (const network of this.networks.values()) {
+      if (network.chainId === chainId) {
+        return network;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the network config, throwing for unknown networks
+   */
+  getNetwork(name: string): NetworkConfig {
+    const network = this.networks.get(name);
+    if (!network) {
+      throw new Error(
+        `Unsupported network "${name}". Supported networks: ${this.listNetworks().join(", ")}`
+      );
+    }
+    return network;
+  }
+
+  listNetworks(): string[] {
+    return Array.from(this.networks.keys());
+  }
+
+  getChainId(name: string): number {
+    return this.getNetwork(name).chainId;
+  }
+
+  /**
+   * Asset used for money-style prices ("$1.00") on the network
+   */
+  getDefaultAsset(name: string): AssetConfig {
+    const network = this.getNetwork(name);
+    if (network.assets.length === 0) {
+      throw new Error(`Network "${name}" has no default asset configured`);
+    }
+    return network.assets[0];
+  }
+
+  /**
+   * Adds an asset to a registered network, replacing any entry with the same address.
+   * New assets are appended, so the network's default asset is unchanged.
+   */
+  registerAsset(networkName: string, asset: AssetConfig): void {
+    const network = this.getNetwork(networkName);
+    if (!/^0x[0-9a-fA-F]{40}$/.test(asset.address)) {
+      throw new Error(`Invalid asset address ${asset.address} for network "${networkName}"`);
+    }
+    if (!Number.isInteger(asset.decimals) || asset.decimals < 0 || asset.decimals > 36) {
+      throw new Error(`Invalid decimals ${asset.decimals} for asset ${asset.address}`);
+    }
+    if (!asset.eip712?.name || !asset.eip712?.version) {
+      throw new Error(`EIP-712 name and version are required for asset ${asset.address}`);
+    }
+
+    const copy = { ...asset, eip712: { ...asset.eip712 } };
+    const index = network.assets.findIndex((existing) => sameAddress(existing.address, asset.address));
+    if (index >= 0) {
+      network.assets[index] = copy;
+    } else {
+      network.assets.push(copy);
+    }
+  }
+
+  /**
+   * Looks up an asset by (network, contract address); addresses compare case-insensitively
+   */
+  findAsset(networkName: string, address: string): AssetConfig | undefined {
+    return this.findNetwork(networkName)?.assets.find((asset) =>
+      sameAddress(asset.address, address)
+    );
+  }
+
+  /**
+   * Returns the asset config, throwing for assets that are not registered
+   */
+  getAsset(networkName: string, address: string): AssetConfig {
+    const asset = this.findAsset(networkName, address);
+    if (!asset) {
+      throw new Error(
+        `Unknown asset ${address} on network "${networkName}". Register it with registerAsset`
+      );
+    }
+    return asset;
+  }
+
+  /**
+   * Block explorer link for a transaction, if the network has an explorer
+   */
+  getTransactionUrl(name: string, transaction: string): string | undefined {
+    const explorerUrl = this.findNetwork(name)?.explorerUrl;
+    return explorerUrl ? `${explorerUrl.replace(/\/$/, "")}/tx/${transaction}` : undefined;
+  }
+}
+
+/**
+ * Process-wide registry consulted by the merchant and wallet functions
+ */
+export const networkRegistry = new NetworkRegistry(DEFAULT_NETWORKS);
+
+/**
+ * Adds a network (e.g. Arbitrum, Optimism or a local Anvil chain) to the default registry
+ */
+export function registerNetwork(network: NetworkConfig): void {
+  networkRegistry.registerNetwork(network);
+}
+
+/**
+ * Adds a token (e.g. EURC or a custom EIP-3009 token) to a network in the default registry
+ */
+export function registerAsset(network: string, asset: AssetConfig): void {
+  networkRegistry.registerAsset(network, asset);
+}
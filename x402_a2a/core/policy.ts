@@ -0,0 +1,253 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Client-side spending policy evaluated before a payment is signed
+ */
+
+import { randomUUID } from "crypto";
+import {
+  PaymentRequirements,
+  SpendHistory,
+  SpendRecord,
+} from "../types/state";
+import { SpendingLimit, SpendingPolicyConfig } from "../types/config";
+import { SpendingPolicyError, x402ErrorCode } from "../types/errors";
+import { InMemorySpendHistory } from "./store";
+import { toAtomicAmount } from "./money";
+import { logger } from "./logger";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export interface SpendingDecision {
+  allowed: boolean;
+  /**
+   * The payment is within limits but above an approval threshold
+   */
+  requiresApproval: boolean;
+  errorCode?: string;
+  reason?: string;
+}
+
+export interface SpendingPolicyOptions {
+  /**
+   * Where signed payments are recorded (defaults to process memory)
+   */
+  history?: SpendHistory;
+  /**
+   * Asked before signing a payment above an approvalThreshold.
+   * Such payments are refused when no callback is configured.
+   */
+  requestApproval?: (
+    requirement: PaymentRequirements,
+    reason: string
+  ) => Promise<boolean>;
+  /**
+   * Current time in unix milliseconds (defaults to the system clock)
+   */
+  now?: () => number;
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function deny(reason: string): SpendingDecision {
+  return {
+    allowed: false,
+    requiresApproval: false,
+    errorCode: x402ErrorCode.SPENDING_LIMIT_EXCEEDED,
+    reason,
+  };
+}
+
+function appliesTo(
+  limit: { asset: string; network?: string },
+  network: string,
+  asset: string
+): boolean {
+  return (
+    sameAddress(limit.asset, asset) &&
+    (limit.network === undefined || limit.network === network)
+  );
+}
+
+function sumSince(
+  history: SpendRecord[],
+  limit: SpendingLimit,
+  since: number
+): bigint {
+  return history
+    .filter(
+      (entry) =>
+        entry.timestamp >= since &&
+        appliesTo(limit, entry.network, entry.asset)
+    )
+    .reduce((total, entry) => total + BigInt(entry.amount), 0n);
+}
+
+/**
+ * Caps what an unattended client may sign: per-payment caps and rolling
+ * daily/weekly budgets per asset, payTo allow/deny lists, allowed networks
+ * and an approval threshold above which a human must confirm.
+ */
+export class SpendingPolicy {
+  private config: SpendingPolicyConfig;
+  private history: SpendHistory;
+  private requestApproval?: SpendingPolicyOptions["requestApproval"];
+  private now: () => number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(config: SpendingPolicyConfig, options: SpendingPolicyOptions = {}) {
+    this.config = config;
+    this.history = options.history || new InMemorySpendHistory();
+    this.requestApproval = options.requestApproval;
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Checks a requirement against the policy without recording anything
+   */
+  async evaluate(requirement: PaymentRequirements): Promise<SpendingDecision> {
+    const { network, asset, payTo } = requirement;
+    const {
+      limits = [],
+      allowedPayTo,
+      deniedPayTo = [],
+      allowedNetworks,
+      denyUnlistedAssets = true,
+    } = this.config;
+
+    if (allowedNetworks && !allowedNetworks.includes(network)) {
+      return deny(`Network "${network}" is not allowed`);
+    }
+    if (deniedPayTo.some((address) => sameAddress(address, payTo))) {
+      return deny(`Merchant ${payTo} is on the deny list`);
+    }
+    if (allowedPayTo && !allowedPayTo.some((address) => sameAddress(address, payTo))) {
+      return deny(`Merchant ${payTo} is not on the allow list`);
+    }
+
+    const matching = limits.filter((limit) => appliesTo(limit, network, asset));
+    if (matching.length === 0 && denyUnlistedAssets) {
+      return deny(`No spending limit is configured for asset ${asset} on "${network}"`);
+    }
+
+    const amount = toAtomicAmount(requirement.maxAmountRequired);
+    const needsHistory = matching.some(
+      (limit) => limit.dailyBudget !== undefined || limit.weeklyBudget !== undefined
+    );
+    const now = this.now();
+    const history = needsHistory ? await this.history.list(now - WEEK_MS) : [];
+
+    let approvalReason: string | undefined;
+    for (const limit of matching) {
+      if (
+        limit.maxPerPayment !== undefined &&
+        amount > toAtomicAmount(limit.maxPerPayment)
+      ) {
+        return deny(`Payment of ${amount} exceeds the per-payment cap of ${limit.maxPerPayment}`);
+      }
+
+      const budgets: Array<[string, SpendingLimit["dailyBudget"], number]> = [
+        ["daily", limit.dailyBudget, now - DAY_MS],
+        ["weekly", limit.weeklyBudget, now - WEEK_MS],
+      ];
+      for (const [label, budget, since] of budgets) {
+        if (budget === undefined) {
+          continue;
+        }
+        const spent = sumSince(history, limit, since);
+        if (spent + amount > toAtomicAmount(budget)) {
+          return deny(
+            `Payment of ${amount} would exceed the ${label} budget of ${budget} (${spent} already spent)`
+          );
+        }
+      }
+
+      if (
+        limit.approvalThreshold !== undefined &&
+        amount > toAtomicAmount(limit.approvalThreshold)
+      ) {
+        approvalReason = `Payment of ${amount} is above the approval threshold of ${limit.approvalThreshold}`;
+      }
+    }
+
+    return approvalReason
+      ? { allowed: true, requiresApproval: true, reason: approvalReason }
+      : { allowed: true, requiresApproval: false };
+  }
+
+  /**
+   * Evaluates the requirement, asks for approval when needed and records the
+   * payment in the spend history, returning the record's id. Throws
+   * SpendingPolicyError when refused. Checks and recording are serialized so
+   * concurrent payments cannot overrun a budget together.
+   *
+   * The payment counts against the budgets from here on. Pass the id to
+   * release() if it is not signed, or the merchant does not settle it.
+   */
+  async authorize(requirement: PaymentRequirements): Promise<string> {
+    const decision = await this.evaluate(requirement);
+    if (!decision.allowed) {
+      throw new SpendingPolicyError(decision.reason!, decision.errorCode!);
+    }
+
+    if (decision.requiresApproval) {
+      const approved = this.requestApproval
+        ? await this.requestApproval(requirement, decision.reason!)
+        : false;
+      if (!approved) {
+        throw new SpendingPolicyError(
+          `${decision.reason}; approval was not given`,
+          x402ErrorCode.APPROVAL_REQUIRED
+        );
+      }
+    }
+
+    const id = randomUUID();
+    const run = this.queue.then(async () => {
+      // Limits may have been used up while waiting for approval
+      const recheck = await this.evaluate(requirement);
+      if (!recheck.allowed) {
+        throw new SpendingPolicyError(recheck.reason!, recheck.errorCode!);
+      }
+      await this.history.record({
+        id,
+        timestamp: this.now(),
+        network: requirement.network,
+        asset: requirement.asset,
+        payTo: requirement.payTo,
+        amount: requirement.maxAmountRequired,
+        resource: requirement.resource,
+      });
+    });
+    this.queue = run.catch(() => undefined);
+    await run;
+
+    logger.log(
+      `Spending policy authorized ${requirement.maxAmountRequired} of ${requirement.asset} to ${requirement.payTo}`
+    );
+    return id;
+  }
+
+  /**
+   * Returns an authorized payment that was never made to the budgets
+   */
+  async release(spendId: string): Promise<void> {
+    if (await this.history.remove(spendId)) {
+      logger.log(`Spending policy released payment ${spendId}`);
+    }
+  }
+}
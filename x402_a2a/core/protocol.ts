@@ -62,5 +62,7 @@ export async function settlePayment(
     network: settleResponse.network || paymentRequirements.network,
     payer: settleResponse.payer,
     errorReason: settleResponse.errorReason,
+    facilitator: settleResponse.facilitator,
+    confirmation: settleResponse.confirmation,
   };
 }
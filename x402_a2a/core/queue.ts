@@ -0,0 +1,61 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * EventQueue wrappers
+ */
+
+import { EventQueue, Task } from "../types/state";
+
+/**
+ * Holds back events until they are explicitly flushed to the wrapped queue
+ */
+export class BufferedEventQueue implements EventQueue {
+  private target: EventQueue;
+  private events: Task[] = [];
+
+  constructor(target: EventQueue) {
+    this.target = target;
+  }
+
+  async enqueueEvent(event: Task): Promise<void> {
+    this.events.push(event);
+  }
+
+  /**
+   * Number of events currently held back
+   */
+  get size(): number {
+    return this.events.length;
+  }
+
+  /**
+   * Releases every held event to the wrapped queue, in order
+   */
+  async flush(): Promise<void> {
+    const events = this.events;
+    this.events = [];
+    for (const event of events) {
+      await this.target.enqueueEvent(event);
+    }
+  }
+
+  /**
+   * Drops every held event and returns how many were dropped
+   */
+  discard(): number {
+    const dropped = this.events.length;
+    this.events = [];
+    return dropped;
+  }
+}
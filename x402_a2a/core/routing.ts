@@ -0,0 +1,247 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Routing across several facilitators with failover
+ */
+
+import {
+  CircuitState,
+  FacilitatorClient,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  SupportedPaymentKind,
+  SupportedResponse,
+  VerifyResponse,
+} from "../types/state";
+import { FacilitatorUnavailableError } from "../types/errors";
+import { logger } from "./logger";
+
+/**
+ * Whether a call certainly did not reach the facilitator, so another one may take it
+ */
+function neverReachedFacilitator(error: FacilitatorUnavailableError): boolean {
+  return error.reason === "unreachable" || error.reason === "circuit-open";
+}
+
+export interface FacilitatorRoute {
+  /**
+   * Recorded as SettleResponse.facilitator on the payments this route settles
+   */
+  name: string;
+  facilitator: FacilitatorClient;
+  /**
+   * Networks the route serves (all when omitted)
+   */
+  networks?: string[];
+  /**
+   * Schemes the route serves (all when omitted)
+   */
+  schemes?: string[];
+  /**
+   * Asset addresses the route serves, compared case-insensitively (all when omitted)
+   */
+  assets?: string[];
+  /**
+   * Further condition the requirements must meet
+   */
+  match?: (requirements: PaymentRequirements) => boolean;
+}
+
+export interface RoutingFacilitatorOptions {
+  /**
+   * Routes in order of preference. Every route matching a payment is a
+   * candidate; the first healthy one is tried first.
+   */
+  routes: FacilitatorRoute[];
+}
+
+/**
+ * FacilitatorClient that sends each payment to the facilitators whose route
+ * matches its requirements, e.g. a self-hosted facilitator for testnets and a
+ * hosted one for mainnet.
+ *
+ * Candidates whose circuit is open (see FacilitatorClient.getHealth) are tried
+ * last. When a candidate throws FacilitatorUnavailableError on verify the next
+ * one is tried; any other error, and every verdict, is final.
+ *
+ * Settle only fails over when the request certainly never reached the
+ * facilitator: its connection was refused or its circuit is open. A settle
+ * that timed out or broke off may already have broadcast the transfer, so its
+ * error is raised as is instead of letting another facilitator submit it again
+ * or report it failed.
+ */
+export class RoutingFacilitatorClient implements FacilitatorClient {
+  private routes: FacilitatorRoute[];
+
+  constructor(options: RoutingFacilitatorOptions) {
+    if (options.routes.length === 0) {
+      throw new Error("RoutingFacilitatorClient needs at least one route");
+    }
+    const names = new Set(options.routes.map((route) => route.name));
+    if (names.size !== options.routes.length) {
+      throw new Error("RoutingFacilitatorClient route names must be unique");
+    }
+    this.routes = [...options.routes];
+  }
+
+  /**
+   * Routes serving the requirements, healthy ones first, otherwise in configured order
+   */
+  getRoutes(requirements: PaymentRequirements): FacilitatorRoute[] {
+    const matching = this.routes.filter((route) =>
+      this.matches(route, requirements)
+    );
+    const isOpen = (route: FacilitatorRoute) =>
+      route.facilitator.getHealth?.().state === CircuitState.OPEN;
+    return [
+      ...matching.filter((route) => !isOpen(route)),
+      ...matching.filter(isOpen),
+    ];
+  }
+
+  async verify(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<VerifyResponse> {
+    const routes = this.getRoutes(requirements);
+    if (routes.length === 0) {
+      return {
+        isValid: false,
+        invalidReason: this.noRouteReason(requirements),
+      };
+    }
+    return this.withFailover(
+      "verify",
+      routes,
+      (route) => route.facilitator.verify(payload, requirements),
+      () => true
+    );
+  }
+
+  async settle(
+    payload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): Promise<SettleResponse> {
+    const routes = this.getRoutes(requirements);
+    if (routes.length === 0) {
+      return {
+        success: false,
+        network: requirements.network,
+        errorReason: this.noRouteReason(requirements),
+      };
+    }
+    return this.withFailover(
+      "settle",
+      routes,
+      async (route) => ({
+        ...(await route.facilitator.settle(payload, requirements)),
+        facilitator: route.name,
+      }),
+      neverReachedFacilitator
+    );
+  }
+
+  /**
+   * Kinds supported by each route's facilitator, narrowed to the route's
+   * networks and schemes. Throws when a route's facilitator cannot list its
+   * kinds, so callers treat everything as supported.
+   */
+  async supported(): Promise<SupportedResponse> {
+    const kinds: SupportedPaymentKind[] = [];
+    for (const route of this.routes) {
+      if (!route.facilitator.supported) {
+        throw new Error(
+          `Facilitator "${route.name}" does not report its supported kinds`
+        );
+      }
+      const response = await route.facilitator.supported();
+      for (const kind of response.kinds) {
+        const served =
+          (!route.networks || route.networks.includes(kind.network)) &&
+          (!route.schemes || route.schemes.includes(kind.scheme));
+        const listed = kinds.some(
+          (existing) =>
+            existing.x402Version === kind.x402Version &&
+            existing.scheme === kind.scheme &&
+            existing.network === kind.network
+        );
+        if (served && !listed) {
+          kinds.push(kind);
+        }
+      }
+    }
+    return { kinds };
+  }
+
+  private async withFailover<T>(
+    operation: string,
+    routes: FacilitatorRoute[],
+    call: (route: FacilitatorRoute) => Promise<T>,
+    canFailOver: (error: FacilitatorUnavailableError) => boolean
+  ): Promise<T> {
+    let lastError: FacilitatorUnavailableError | undefined;
+    for (const route of routes) {
+      try {
+        return await call(route);
+      } catch (error) {
+        if (!(error instanceof FacilitatorUnavailableError)) {
+          throw error;
+        }
+        if (!canFailOver(error)) {
+          logger.error(
+            `Facilitator "${route.name}" failed during ${operation} and may have processed it; not failing over: ${error.message}`
+          );
+          throw error;
+        }
+        lastError = error;
+        logger.warn(
+          `Facilitator "${route.name}" unavailable for ${operation}: ${error.message}`
+        );
+      }
+    }
+    throw new FacilitatorUnavailableError(
+      `No facilitator available for ${operation} (tried ${routes
+        .map((route) => route.name)
+        .join(", ")}): ${lastError!.message}`,
+      lastError!.reason,
+      lastError!.status
+    );
+  }
+
+  private matches(
+    route: FacilitatorRoute,
+    requirements: PaymentRequirements
+  ): boolean {
+    if (route.networks && !route.networks.includes(requirements.network)) {
+      return false;
+    }
+    if (route.schemes && !route.schemes.includes(requirements.scheme)) {
+      return false;
+    }
+    if (
+      route.assets &&
+      !route.assets.some(
+        (asset) => asset.toLowerCase() === requirements.asset.toLowerCase()
+      )
+    ) {
+      return false;
+    }
+    return route.match ? route.match(requirements) : true;
+  }
+
+  private noRouteReason(requirements: PaymentRequirements): string {
+    return `No facilitator route for "${requirements.scheme}" payments of ${requirements.asset} on "${requirements.network}"`;
+  }
+}
@@ -0,0 +1,221 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Runtime schemas for x402 data read from untrusted messages
+ */
+
+import {
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  SettlementConfirmation,
+  x402PaymentRequiredResponse,
+} from "../types/state";
+import { ValidationError } from "../types/errors";
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * A schema checks a value and appends any problems found, each with its field path
+ */
+export type Schema<T = unknown> = {
+  (value: unknown, path: string, issues: SchemaIssue[]): void;
+  /** Phantom marker for the type the schema describes */
+  readonly __type?: T;
+};
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const BYTES32_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const HEX_PATTERN = /^0x[0-9a-fA-F]+$/;
+const UINT_PATTERN = /^[0-9]+$/;
+
+function pattern(regex: RegExp, description: string): Schema<string> {
+  return (value, path, issues) => {
+    if (typeof value !== "string" || !regex.test(value)) {
+      issues.push({ path, message: `must be ${description}` });
+    }
+  };
+}
+
+const nonEmptyString: Schema<string> = (value, path, issues) => {
+  if (typeof value !== "string" || value.length === 0) {
+    issues.push({ path, message: "must be a non-empty string" });
+  }
+};
+
+const string: Schema<string> = (value, path, issues) => {
+  if (typeof value !== "string") {
+    issues.push({ path, message: "must be a string" });
+  }
+};
+
+const boolean: Schema<boolean> = (value, path, issues) => {
+  if (typeof value !== "boolean") {
+    issues.push({ path, message: "must be a boolean" });
+  }
+};
+
+const integer: Schema<number> = (value, path, issues) => {
+  if (typeof value !== "number" || !Number.isSafeInteger(value) || value < 0) {
+    issues.push({ path, message: "must be a non-negative integer" });
+  }
+};
+
+/**
+ * Non-negative integer given either as a JSON number or a decimal string
+ */
+const uint: Schema<number | string> = (value, path, issues) => {
+  if (typeof value === "string" && UINT_PATTERN.test(value)) {
+    return;
+  }
+  integer(value, path, issues);
+};
+
+const address = pattern(ADDRESS_PATTERN, "a 0x-prefixed 20-byte address");
+const bytes32 = pattern(BYTES32_PATTERN, "a 0x-prefixed 32-byte hex string");
+const hex = pattern(HEX_PATTERN, "a 0x-prefixed hex string");
+const uintString = pattern(UINT_PATTERN, "a decimal integer string");
+
+const any: Schema = () => undefined;
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  const wrapped: Schema<T | undefined> = (value, path, issues) => {
+    if (value !== undefined && value !== null) {
+      schema(value, path, issues);
+    }
+  };
+  return wrapped;
+}
+
+function record(): Schema<Record<string, any>> {
+  return (value, path, issues) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      issues.push({ path, message: "must be an object" });
+    }
+  };
+}
+
+function object<T>(shape: Record<string, Schema>): Schema<T> {
+  return (value, path, issues) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      issues.push({ path, message: "must be an object" });
+      return;
+    }
+    for (const [key, schema] of Object.entries(shape)) {
+      schema((value as Record<string, unknown>)[key], `${path}.${key}`, issues);
+    }
+  };
+}
+
+function array<T>(item: Schema<T>, minLength: number = 0): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, message: "must be an array" });
+      return;
+    }
+    if (value.length < minLength) {
+      issues.push({ path, message: `must contain at least ${minLength} item(s)` });
+    }
+    value.forEach((entry, index) => item(entry, `${path}[${index}]`, issues));
+  };
+}
+
+export const PaymentRequirementsSchema = object<PaymentRequirements>({
+  scheme: nonEmptyString,
+  network: nonEmptyString,
+  asset: address,
+  payTo: address,
+  maxAmountRequired: uintString,
+  resource: string,
+  description: string,
+  mimeType: string,
+  maxTimeoutSeconds: integer,
+  outputSchema: any,
+  extra: optional(record()),
+});
+
+export const x402PaymentRequiredResponseSchema = object<x402PaymentRequiredResponse>({
+  x402Version: integer,
+  accepts: array(PaymentRequirementsSchema, 1),
+  error: optional(string),
+});
+
+export const PaymentPayloadSchema = object<PaymentPayload>({
+  x402Version: integer,
+  scheme: nonEmptyString,
+  network: nonEmptyString,
+  payload: object({
+    signature: hex,
+    authorization: object({
+      from: address,
+      to: address,
+      value: uintString,
+      validAfter: uint,
+      validBefore: uint,
+      nonce: bytes32,
+    }),
+  }),
+});
+
+const SettlementConfirmationSchema = object<SettlementConfirmation>({
+  status: nonEmptyString,
+  transaction: optional(string),
+  network: nonEmptyString,
+  blockNumber: optional(integer),
+  blockHash: optional(bytes32),
+  confirmations: integer,
+  requiredConfirmations: integer,
+});
+
+export const SettleResponseSchema = object<SettleResponse>({
+  success: boolean,
+  transaction: optional(string),
+  network: nonEmptyString,
+  payer: optional(string),
+  errorReason: optional(string),
+  facilitator: optional(string),
+  confirmation: optional(SettlementConfirmationSchema),
+});
+
+/**
+ * Returns every problem the schema finds in value, paths rooted at path
+ */
+export function checkSchema<T>(
+  schema: Schema<T>,
+  value: unknown,
+  path: string = "$"
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  schema(value, path, issues);
+  return issues;
+}
+
+/**
+ * Returns value typed by the schema, or throws a ValidationError naming the first offending field
+ */
+export function parseWithSchema<T>(
+  schema: Schema<T>,
+  value: unknown,
+  path: string = "$"
+): T {
+  const issues = checkSchema(schema, value, path);
+  if (issues.length > 0) {
+    const [first] = issues;
+    throw new ValidationError(`${first.path} ${first.message}`, first.path);
+  }
+  return value as T;
+}
@@ -0,0 +1,250 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Built-in strategies for choosing among multiple accepts entries.
+ * Every built-in selector sorts stably, so ties keep the merchant's order.
+ */
+
+import { Contract, Provider } from "ethers";
+import {
+  PaymentRequirements,
+  PaymentRequirementSelector,
+  PaymentSelectionContext,
+} from "../types/state";
+import { networkRegistry } from "./networks";
+import { parseMoney, toAtomicAmount } from "./money";
+import { logger } from "./logger";
+
+/**
+ * Fixed-point scale for USD values: 18 decimals of rate times up to 36 of asset
+ */
+const USD_RATE_DECIMALS = 18;
+const MAX_ASSET_DECIMALS = 36;
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function stableSortBy<T>(items: T[], key: (item: T) => number): T[] {
+  return items
+    .map((item, index) => ({ item, index, key: key(item) }))
+    .sort((a, b) => a.key - b.key || a.index - b.index)
+    .map((entry) => entry.item);
+}
+
+/**
+ * Keeps the merchant's order
+ */
+export class FirstOptionSelector implements PaymentRequirementSelector {
+  async rank(accepts: PaymentRequirements[]): Promise<PaymentRequirements[]> {
+    return [...accepts];
+  }
+}
+
+export interface CheapestSelectorOptions {
+  /**
+   * USD value of one whole token, keyed by asset symbol or address (defaults to { USDC: 1 })
+   */
+  usdRates?: Record<string, number | string>;
+}
+
+/**
+ * Prefers the entry that costs the least in USD. Entries whose asset has
+ * no known decimals or rate are kept, after every priced entry.
+ */
+export class CheapestSelector implements PaymentRequirementSelector {
+  private usdRates: Map<string, bigint> = new Map();
+
+  constructor(options: CheapestSelectorOptions = {}) {
+    const usdRates = options.usdRates || { USDC: 1 };
+    for (const [key, rate] of Object.entries(usdRates)) {
+      this.usdRates.set(key.toLowerCase(), parseMoney(rate, USD_RATE_DECIMALS).amount);
+    }
+  }
+
+  /**
+   * USD value scaled by 10^(USD_RATE_DECIMALS + MAX_ASSET_DECIMALS), or undefined if unknown
+   */
+  private usdValue(requirement: PaymentRequirements): bigint | undefined {
+    const asset = networkRegistry.findAsset(requirement.network, requirement.asset);
+    if (!asset) {
+      return undefined;
+    }
+    const rate =
+      this.usdRates.get(asset.address.toLowerCase()) ??
+      this.usdRates.get(asset.symbol.toLowerCase());
+    if (rate === undefined) {
+      return undefined;
+    }
+    return (
+      toAtomicAmount(requirement.maxAmountRequired) *
+      rate *
+      10n ** BigInt(MAX_ASSET_DECIMALS - asset.decimals)
+    );
+  }
+
+  async rank(accepts: PaymentRequirements[]): Promise<PaymentRequirements[]> {
+    const priced = accepts.map((requirement, index) => ({
+      requirement,
+      index,
+      value: this.usdValue(requirement),
+    }));
+    return priced
+      .sort((a, b) => {
+        if (a.value === undefined || b.value === undefined) {
+          return (
+            Number(a.value === undefined) - Number(b.value === undefined) ||
+            a.index - b.index
+          );
+        }
+        return a.value < b.value ? -1 : a.value > b.value ? 1 : a.index - b.index;
+      })
+      .map((entry) => entry.requirement);
+  }
+}
+
+/**
+ * Prefers networks in the given order; other networks follow
+ */
+export class PreferredNetworkSelector implements PaymentRequirementSelector {
+  private networks: string[];
+
+  constructor(networks: string[]) {
+    this.networks = networks;
+  }
+
+  async rank(accepts: PaymentRequirements[]): Promise<PaymentRequirements[]> {
+    return stableSortBy(accepts, (requirement) => {
+      const index = this.networks.indexOf(requirement.network);
+      return index === -1 ? this.networks.length : index;
+    });
+  }
+}
+
+/**
+ * Prefers assets in the given order, each named by contract address or
+ * registered symbol (e.g. "USDC"); other assets follow
+ */
+export class PreferredAssetSelector implements PaymentRequirementSelector {
+  private assets: string[];
+
+  constructor(assets: string[]) {
+    this.assets = assets;
+  }
+
+  private matches(preference: string, requirement: PaymentRequirements): boolean {
+    if (sameAddress(preference, requirement.asset)) {
+      return true;
+    }
+    const asset = networkRegistry.findAsset(requirement.network, requirement.asset);
+    return !!asset && asset.symbol.toLowerCase() === preference.toLowerCase();
+  }
+
+  async rank(accepts: PaymentRequirements[]): Promise<PaymentRequirements[]> {
+    return stableSortBy(accepts, (requirement) => {
+      const index = this.assets.findIndex((preference) =>
+        this.matches(preference, requirement)
+      );
+      return index === -1 ? this.assets.length : index;
+    });
+  }
+}
+
+/**
+ * Returns the payer's balance of an asset, or undefined if it cannot be determined
+ */
+export type BalanceLookup = (
+  network: string,
+  asset: string,
+  owner: string
+) => Promise<bigint | undefined>;
+
+/**
+ * Reads ERC-20 balances through one provider per network
+ */
+export function createErc20BalanceLookup(
+  providers: Record<string, Provider>
+): BalanceLookup {
+  return async (network, asset, owner) => {
+    const provider = providers[network];
+    if (!provider) {
+      return undefined;
+    }
+    const token = new Contract(
+      asset,
+      ["function balanceOf(address account) view returns (uint256)"],
+      provider
+    );
+    return BigInt(await token.balanceOf(owner));
+  };
+}
+
+/**
+ * Drops entries the payer cannot cover, including those whose balance
+ * cannot be determined. Without a payer in the context, nothing is dropped.
+ */
+export class BalanceSelector implements PaymentRequirementSelector {
+  private getBalance: BalanceLookup;
+
+  constructor(getBalance: BalanceLookup) {
+    this.getBalance = getBalance;
+  }
+
+  async rank(
+    accepts: PaymentRequirements[],
+    context: PaymentSelectionContext
+  ): Promise<PaymentRequirements[]> {
+    const { payer } = context;
+    if (!payer) {
+      return [...accepts];
+    }
+
+    const covered = await Promise.all(
+      accepts.map(async (requirement) => {
+        try {
+          const balance = await this.getBalance(requirement.network, requirement.asset, payer);
+          return balance !== undefined && balance >= toAtomicAmount(requirement.maxAmountRequired);
+        } catch (error) {
+          logger.warn(`Could not read balance of ${requirement.asset} on ${requirement.network}:`, error);
+          return false;
+        }
+      })
+    );
+    return accepts.filter((_, index) => covered[index]);
+  }
+}
+
+/**
+ * Combines selectors; earlier selectors take precedence and later ones
+ * break their ties. An entry dropped by any selector is dropped.
+ */
+export class CompositeSelector implements PaymentRequirementSelector {
+  private selectors: PaymentRequirementSelector[];
+
+  constructor(...selectors: PaymentRequirementSelector[]) {
+    this.selectors = selectors;
+  }
+
+  async rank(
+    accepts: PaymentRequirements[],
+    context: PaymentSelectionContext
+  ): Promise<PaymentRequirements[]> {
+    // Applying stable sorts from the least to the most significant key
+    let ranked = [...accepts];
+    for (const selector of [...this.selectors].reverse()) {
+      ranked = await selector.rank(ranked, context);
+    }
+    return ranked;
+  }
+}
@@ -0,0 +1,254 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * PaymentSigner adapters for ethers wallets and signers, encrypted
+ * keystores and remote signing services
+ */
+
+import { promises as fs } from "fs";
+import type { IncomingMessage, ServerResponse } from "http";
+import {
+  AbstractSigner,
+  BaseWallet,
+  TypedDataDomain,
+  TypedDataField,
+  Wallet,
+  verifyTypedData,
+} from "ethers";
+import { PaymentSigner } from "../types/state";
+import { PaymentError } from "../types/errors";
+
+/**
+ * Signs with an in-process ethers wallet
+ */
+export class WalletSigner implements PaymentSigner {
+  readonly address: string;
+  private wallet: BaseWallet;
+
+  constructor(wallet: BaseWallet) {
+    this.wallet = wallet;
+    this.address = wallet.address;
+  }
+
+  signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.wallet.signTypedData(domain, types, value);
+  }
+}
+
+/**
+ * Signs with any ethers AbstractSigner, e.g. a hardware wallet, browser
+ * wallet or KMS-backed signer. Use create() so the address is resolved once.
+ */
+export class EthersSigner implements PaymentSigner {
+  readonly address: string;
+  private signer: AbstractSigner;
+
+  private constructor(signer: AbstractSigner, address: string) {
+    this.signer = signer;
+    this.address = address;
+  }
+
+  static async create(signer: AbstractSigner): Promise<EthersSigner> {
+    return new EthersSigner(signer, await signer.getAddress());
+  }
+
+  signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.signer.signTypedData(domain, types, value);
+  }
+}
+
+/**
+ * Signs with a key decrypted from an encrypted JSON keystore (Web3 Secret
+ * Storage v3, as written by geth, Foundry's `cast wallet` or ethers)
+ */
+export class KeystoreSigner extends WalletSigner {
+  static async fromJson(json: string, password: string): Promise<KeystoreSigner> {
+    return new KeystoreSigner(await Wallet.fromEncryptedJson(json, password));
+  }
+
+  static async fromFile(filePath: string, password: string): Promise<KeystoreSigner> {
+    return KeystoreSigner.fromJson(await fs.readFile(filePath, "utf-8"), password);
+  }
+}
+
+export interface RemoteSignerOptions {
+  /**
+   * Base URL of the signing service
+   */
+  url: string;
+  /**
+   * Address of the key held by the service
+   */
+  address: string;
+  apiKey?: string;
+  /**
+   * Request timeout in milliseconds (defaults to 10 seconds)
+   */
+  timeoutMs?: number;
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, entry) =>
+    typeof entry === "bigint" ? entry.toString() : entry
+  );
+}
+
+/**
+ * Sends typed data to a signing service over HTTP, so the key never enters
+ * this process. The service is called with
+ * `POST {url}/sign-typed-data {address, domain, types, value}` and must reply
+ * `{signature}`. Every signature is checked to recover to the expected address.
+ * Any failure, including a malformed reply, raises PaymentError.
+ */
+export class RemoteSigner implements PaymentSigner {
+  readonly address: string;
+  private url: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+
+  constructor(options: RemoteSignerOptions) {
+    if (!options.url.startsWith("http://") && !options.url.startsWith("https://")) {
+      throw new Error(`Invalid URL ${options.url}, must start with http:// or https://`);
+    }
+    this.url = options.url.endsWith("/") ? options.url.slice(0, -1) : options.url;
+    this.address = options.address;
+    this.apiKey = options.apiKey;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  async signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}/sign-typed-data`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: toJson({ address: this.address, domain, types, value }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      throw new PaymentError(
+        `Remote signer unreachable: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!response.ok) {
+      throw new PaymentError(
+        `Remote signer refused to sign: HTTP ${response.status}: ${response.statusText}`
+      );
+    }
+
+    let data: { signature?: unknown } | null;
+    try {
+      data = (await response.json()) as { signature?: unknown } | null;
+    } catch (error) {
+      throw new PaymentError(
+        `Remote signer returned invalid JSON: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (typeof data?.signature !== "string") {
+      throw new PaymentError("Remote signer response has no signature");
+    }
+
+    let recovered: string;
+    try {
+      recovered = verifyTypedData(domain, types, value, data.signature);
+    } catch (error) {
+      throw new PaymentError(
+        `Remote signer returned an invalid signature: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (recovered.toLowerCase() !== this.address.toLowerCase()) {
+      throw new PaymentError(
+        `Remote signer returned a signature for ${recovered}, expected ${this.address}`
+      );
+    }
+    return data.signature;
+  }
+}
+
+export interface SigningServiceOptions {
+  /**
+   * Bearer token callers must present, when set
+   */
+  apiKey?: string;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Request handler implementing the RemoteSigner protocol on top of another
+ * PaymentSigner. Mount it with http.createServer to run a local fake of a
+ * signing service in tests and development:
+ *
+ *   http.createServer(createSigningServiceHandler(new WalletSigner(wallet))).listen(8787);
+ */
+export function createSigningServiceHandler(
+  signer: PaymentSigner,
+  options: SigningServiceOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => void {
+  return (req, res) => {
+    if (options.apiKey && req.headers.authorization !== `Bearer ${options.apiKey}`) {
+      sendJson(res, 401, { error: "Unauthorized" });
+      return;
+    }
+
+    if (req.method === "GET" && req.url === "/address") {
+      sendJson(res, 200, { address: signer.address });
+      return;
+    }
+    if (req.method !== "POST" || req.url !== "/sign-typed-data") {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    let body = "";
+    req.setEncoding("utf-8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+    });
+    req.on("end", async () => {
+      try {
+        const { address, domain, types, value } = JSON.parse(body);
+        if (typeof address !== "string" || address.toLowerCase() !== signer.address.toLowerCase()) {
+          sendJson(res, 403, { error: `This service does not hold a key for ${address}` });
+          return;
+        }
+        const signature = await signer.signTypedData(domain, types, value);
+        sendJson(res, 200, { signature });
+      } catch (error) {
+        sendJson(res, 400, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+  };
+}
@@ -0,0 +1,489 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Stores for outstanding payment requirements, used authorization nonces,
+ * the client's spend history and A2A tasks
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+  NonceKey,
+  NonceLedger,
+  PaymentRequirements,
+  PaymentRequirementsStore,
+  SpendHistory,
+  SpendRecord,
+  Task,
+  TaskStore,
+} from "../types/state";
+
+const LOCK_RETRY_MS = 10;
+const LOCK_TIMEOUT_MS = 10_000;
+const LOCK_STALE_MS = 30_000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * JSON document on disk, re-read on every access so that processes sharing
+ * the same path see each other's writes. Writes go through a temp file and
+ * rename. Read-modify-write cycles hold a lockfile next to the document,
+ * created with O_EXCL, so they are serialized across processes as well; a
+ * lockfile left behind by a crashed process is broken after 30 seconds.
+ */
+class JsonFile<T> {
+  private filePath: string;
+  private lockPath: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+    this.lockPath = `${this.filePath}.lock`;
+  }
+
+  async read(): Promise<T> {
+    try {
+      const contents = await fs.readFile(this.filePath, "utf-8");
+      return JSON.parse(contents) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {} as T;
+      }
+      throw error;
+    }
+  }
+
+  async update<R>(mutate: (data: T) => R): Promise<R> {
+    const run = this.queue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await this.lock();
+      try {
+        const data = await this.read();
+        const result = mutate(data);
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(data), "utf-8");
+        await fs.rename(tmpPath, this.filePath);
+        return result;
+      } finally {
+        await fs.unlink(this.lockPath).catch(() => undefined);
+      }
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async lock(): Promise<void> {
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    while (true) {
+      try {
+        const handle = await fs.open(this.lockPath, "wx");
+        await handle.close();
+        return;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw error;
+        }
+      }
+
+      await this.breakStaleLock();
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for the lock on ${this.filePath}`);
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  private async breakStaleLock(): Promise<void> {
+    try {
+      const stats = await fs.stat(this.lockPath);
+      if (Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+        await fs.unlink(this.lockPath);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+}
+
+interface StoredRequirement {
+  requirement: PaymentRequirements;
+  expiresAt: number;
+}
+
+type StoredRequirements = Record<string, StoredRequirement[]>;
+
+function toStored(
+  requirements: PaymentRequirements[],
+  now: number
+): StoredRequirement[] {
+  return requirements.map((requirement) => ({
+    requirement,
+    expiresAt: now + requirement.maxTimeoutSeconds * 1000,
+  }));
+}
+
+function unexpired(
+  entries: StoredRequirement[],
+  now: number
+): StoredRequirement[] {
+  return entries.filter((entry) => entry.expiresAt > now);
+}
+
+/**
+ * Drops expired entries, and tasks left without any, returning how many tasks were dropped
+ */
+function pruneRequirements(data: StoredRequirements, now: number): number {
+  let removed = 0;
+  for (const taskId of Object.keys(data)) {
+    const live = unexpired(data[taskId], now);
+    if (live.length === 0) {
+      delete data[taskId];
+      removed++;
+    } else {
+      data[taskId] = live;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Keeps requirements in process memory; lost on restart. Each set also drops
+ * the quotes that expired unpaid.
+ */
+export class InMemoryPaymentRequirementsStore
+  implements PaymentRequirementsStore
+{
+  private entries: Map<string, StoredRequirement[]> = new Map();
+
+  async get(taskId: string): Promise<PaymentRequirements[] | undefined> {
+    const entries = this.entries.get(taskId);
+    if (!entries) {
+      return undefined;
+    }
+
+    const live = unexpired(entries, Date.now());
+    if (live.length === 0) {
+      this.entries.delete(taskId);
+      return undefined;
+    }
+    return live.map((entry) => entry.requirement);
+  }
+
+  async set(
+    taskId: string,
+    requirements: PaymentRequirements[]
+  ): Promise<void> {
+    await this.expire();
+    this.entries.set(taskId, toStored(requirements, Date.now()));
+  }
+
+  async delete(taskId: string): Promise<void> {
+    this.entries.delete(taskId);
+  }
+
+  async expire(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [taskId, entries] of this.entries) {
+      const live = unexpired(entries, now);
+      if (live.length === 0) {
+        this.entries.delete(taskId);
+        removed++;
+      } else {
+        this.entries.set(taskId, live);
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * Keeps requirements in a JSON file so pending quotes survive restarts
+ * and can be shared by processes on the same host or volume. Every set,
+ * delete and expire holds the file's lock, so replicas quoting at the same
+ * time keep each other's entries. Each set also drops the quotes that
+ * expired unpaid.
+ */
+export class FilePaymentRequirementsStore implements PaymentRequirementsStore {
+  private file: JsonFile<StoredRequirements>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async get(taskId: string): Promise<PaymentRequirements[] | undefined> {
+    const data = await this.file.read();
+    const live = unexpired(data[taskId] || [], Date.now());
+    return live.length > 0 ? live.map((entry) => entry.requirement) : undefined;
+  }
+
+  async set(
+    taskId: string,
+    requirements: PaymentRequirements[]
+  ): Promise<void> {
+    await this.file.update((data) => {
+      const now = Date.now();
+      pruneRequirements(data, now);
+      data[taskId] = toStored(requirements, now);
+    });
+  }
+
+  async delete(taskId: string): Promise<void> {
+    await this.file.update((data) => {
+      delete data[taskId];
+    });
+  }
+
+  async expire(): Promise<number> {
+    return this.file.update((data) => pruneRequirements(data, Date.now()));
+  }
+}
+
+/**
+ * Ledger key for a (from, nonce, asset, network) tuple
+ */
+export function getNonceLedgerKey(key: NonceKey): string {
+  return [key.network, key.asset, key.from, key.nonce]
+    .map((part) => part.toLowerCase())
+    .join(":");
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Keeps claimed nonces in process memory; only protects a single instance.
+ * Each reserve also drops the entries whose validBefore has passed.
+ */
+export class InMemoryNonceLedger implements NonceLedger {
+  private entries: Map<string, number> = new Map();
+
+  async reserve(key: NonceKey, validBefore: number): Promise<boolean> {
+    await this.expire();
+    const ledgerKey = getNonceLedgerKey(key);
+    if (this.entries.has(ledgerKey)) {
+      return false;
+    }
+    this.entries.set(ledgerKey, validBefore);
+    return true;
+  }
+
+  async release(key: NonceKey): Promise<void> {
+    this.entries.delete(getNonceLedgerKey(key));
+  }
+
+  async expire(): Promise<number> {
+    const now = nowSeconds();
+    let removed = 0;
+    for (const [ledgerKey, validBefore] of this.entries) {
+      if (validBefore <= now) {
+        this.entries.delete(ledgerKey);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * Removes entries whose validBefore has passed and returns how many were dropped
+ */
+function pruneNonces(data: Record<string, number>): number {
+  const now = nowSeconds();
+  let removed = 0;
+  for (const ledgerKey of Object.keys(data)) {
+    if (data[ledgerKey] <= now) {
+      delete data[ledgerKey];
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Keeps claimed nonces in a JSON file shared by processes on the same host or
+ * volume. Each reserve is a locked read-modify-write of the whole file, so
+ * two replicas cannot both claim the same nonce; it also drops the entries
+ * whose validBefore has passed, so the file only holds live authorizations.
+ */
+export class FileNonceLedger implements NonceLedger {
+  private file: JsonFile<Record<string, number>>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async reserve(key: NonceKey, validBefore: number): Promise<boolean> {
+    const ledgerKey = getNonceLedgerKey(key);
+    return this.file.update((data) => {
+      pruneNonces(data);
+      if (data[ledgerKey] !== undefined) {
+        return false;
+      }
+      data[ledgerKey] = validBefore;
+      return true;
+    });
+  }
+
+  async release(key: NonceKey): Promise<void> {
+    const ledgerKey = getNonceLedgerKey(key);
+    await this.file.update((data) => {
+      delete data[ledgerKey];
+    });
+  }
+
+  async expire(): Promise<number> {
+    return this.file.update(pruneNonces);
+  }
+}
+
+/**
+ * Keeps signed payments in process memory; budgets reset on restart
+ */
+export class InMemorySpendHistory implements SpendHistory {
+  private entries: SpendRecord[] = [];
+
+  async record(entry: SpendRecord): Promise<void> {
+    this.entries.push({ ...entry });
+  }
+
+  async list(since: number): Promise<SpendRecord[]> {
+    return this.entries.filter((entry) => entry.timestamp >= since);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const count = this.entries.length;
+    this.entries = this.entries.filter((entry) => entry.id !== id);
+    return this.entries.length < count;
+  }
+
+  async expire(before: number): Promise<number> {
+    const count = this.entries.length;
+    this.entries = this.entries.filter((entry) => entry.timestamp >= before);
+    return count - this.entries.length;
+  }
+}
+
+/**
+ * Keeps signed payments in a JSON file so budgets survive restarts
+ */
+export class FileSpendHistory implements SpendHistory {
+  private file: JsonFile<{ payments?: SpendRecord[] }>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async record(entry: SpendRecord): Promise<void> {
+    await this.file.update((data) => {
+      data.payments = [...(data.payments || []), { ...entry }];
+    });
+  }
+
+  async list(since: number): Promise<SpendRecord[]> {
+    const data = await this.file.read();
+    return (data.payments || []).filter((entry) => entry.timestamp >= since);
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.file.update((data) => {
+      const payments = data.payments || [];
+      data.payments = payments.filter((entry) => entry.id !== id);
+      return data.payments.length < payments.length;
+    });
+  }
+
+  async expire(before: number): Promise<number> {
+    return this.file.update((data) => {
+      const payments = data.payments || [];
+      data.payments = payments.filter((entry) => entry.timestamp >= before);
+      return payments.length - data.payments.length;
+    });
+  }
+}
+
+function copyTask(task: Task): Task {
+  return JSON.parse(JSON.stringify(task));
+}
+
+/**
+ * Keeps tasks in process memory; lost on restart. Tasks are copied in and
+ * out, so callers only change the stored task through set.
+ */
+export class InMemoryTaskStore implements TaskStore {
+  private tasks: Map<string, Task> = new Map();
+
+  async get(taskId: string): Promise<Task | undefined> {
+    const task = this.tasks.get(taskId);
+    return task && copyTask(task);
+  }
+
+  async set(task: Task): Promise<void> {
+    this.tasks.set(task.id, copyTask(task));
+  }
+
+  async listByContext(contextId: string): Promise<Task[]> {
+    return [...this.tasks.values()]
+      .filter((task) => task.contextId === contextId)
+      .map(copyTask);
+  }
+
+  async delete(taskId: string): Promise<void> {
+    this.tasks.delete(taskId);
+  }
+}
+
+/**
+ * Keeps tasks in a JSON file so conversations and their payment history
+ * survive restarts and can be shared by processes on the same volume. Like
+ * InMemoryTaskStore it copies tasks in and out; writes hold the file's lock,
+ * so replicas storing different tasks keep each other's updates.
+ */
+export class FileTaskStore implements TaskStore {
+  private file: JsonFile<Record<string, Task>>;
+
+  constructor(filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  async get(taskId: string): Promise<Task | undefined> {
+    const data = await this.file.read();
+    const task = data[taskId];
+    return task && copyTask(task);
+  }
+
+  async set(task: Task): Promise<void> {
+    await this.file.update((data) => {
+      data[task.id] = copyTask(task);
+    });
+  }
+
+  async listByContext(contextId: string): Promise<Task[]> {
+    const data = await this.file.read();
+    return Object.values(data)
+      .filter((task) => task.contextId === contextId)
+      .map(copyTask);
+  }
+
+  async delete(taskId: string): Promise<void> {
+    await this.file.update((data) => {
+      delete data[taskId];
+    });
+  }
+}
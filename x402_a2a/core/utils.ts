@@ -24,17 +24,36 @@ import {
   x402PaymentRequiredResponse,
   PaymentPayload,
   SettleResponse,
+  SettlementConfirmation,
+  ConfirmationStatus,
   TaskState,
   TaskStatus,
   TextPart,
+  DataPart,
 } from "../types/state";
+import { MessageError, ValidationError, x402ErrorCode } from "../types/errors";
 import { logger } from "./logger";
-
-/**
- * Parse payment payload from metadata
- */
-function parsePaymentPayload(payloadData: any): PaymentPayload {
-  return payloadData as PaymentPayload;
+import {
+  Schema,
+  PaymentPayloadSchema,
+  SettleResponseSchema,
+  x402PaymentRequiredResponseSchema,
+  parseWithSchema,
+} from "./schemas";
+
+export interface x402UtilsOptions {
+  /**
+   * When true, malformed x402 metadata throws a MessageError or ValidationError
+   * naming the offending field path. When false (the default), it is logged and
+   * treated as absent.
+   */
+  strict?: boolean;
+  /**
+   * When true, payment requirements and receipts recorded on a task are also
+   * written as DataParts of its status message, for A2A clients that read
+   * parts rather than metadata. Readers accept either form regardless.
+   */
+  dataParts?: boolean;
 }
 
 /**
@@ -76,6 +95,98 @@ export class x402Utils {
   static readonly RECEIPTS_KEY = x402Metadata.RECEIPTS_KEY;
   static readonly ERROR_KEY = x402Metadata.ERROR_KEY;
 
+  private strict: boolean;
+  private dataParts: boolean;
+
+  constructor(options?: x402UtilsOptions) {
+    this.strict = options?.strict ?? false;
+    this.dataParts = options?.dataParts ?? false;
+  }
+
+  /**
+   * Validates a metadata value, throwing in strict mode and returning null otherwise
+   */
+  private parseMetadataValue<T>(
+    schema: Schema<T>,
+    value: unknown,
+    path: string
+  ): T | null {
+    try {
+      return parseWithSchema(schema, value, path);
+    } catch (error) {
+      if (this.strict) {
+        throw error;
+      }
+      logger.warn(`Ignoring invalid x402 metadata: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Returns the message metadata, rejecting non-object metadata in strict mode
+   */
+  private getMetadata(message: Message): Record<string, any> | null {
+    if (!message?.metadata) {
+      return null;
+    }
+    if (typeof message.metadata !== "object" || Array.isArray(message.metadata)) {
+      if (this.strict) {
+        throw new MessageError("message.metadata must be an object");
+      }
+      logger.warn("Ignoring message metadata that is not an object");
+      return null;
+    }
+    return message.metadata;
+  }
+
+  /**
+   * Finds an x402 value in the message metadata, or else in a DataPart
+   * carrying it under the same key, with the path it was found at
+   */
+  private findPaymentValue(
+    message: Message,
+    key: string
+  ): { value: unknown; path: string } | null {
+    const metadata = this.getMetadata(message);
+    if (metadata?.[key]) {
+      return { value: metadata[key], path: `metadata["${key}"]` };
+    }
+
+    const parts = Array.isArray(message?.parts) ? message.parts : [];
+    const index = parts.findIndex(
+      (part) => part?.kind === "data" && part.data?.[key]
+    );
+    if (index < 0) {
+      return null;
+    }
+    return {
+      value: (parts[index] as DataPart).data[key],
+      path: `parts[${index}].data["${key}"]`,
+    };
+  }
+
+  /**
+   * With the dataParts option, mirrors the requirements and receipts in the
+   * message metadata as DataParts, dropping those no longer in the metadata
+   */
+  private syncDataParts(message: Message): void {
+    if (!this.dataParts) {
+      return;
+    }
+    for (const key of [x402Utils.REQUIRED_KEY, x402Utils.RECEIPTS_KEY]) {
+      message.parts = (message.parts || []).filter(
+        (part) => !(part.kind === "data" && key in part.data)
+      );
+      const value = message.metadata?.[key];
+      if (value) {
+        message.parts.push({
+          kind: "data",
+          data: { [key]: JSON.parse(JSON.stringify(value)) },
+        });
+      }
+    }
+  }
+
   getPaymentStatusFromMessage(message: Message): PaymentStatus | null {
     if (!message?.metadata) {
       return null;
@@ -102,19 +213,15 @@ export class x402Utils {
   getPaymentRequirementsFromMessage(
     message: Message
   ): x402PaymentRequiredResponse | null {
-    if (!message?.metadata) {
+    const found = this.findPaymentValue(message, x402Utils.REQUIRED_KEY);
+    if (!found) {
       return null;
     }
-
-    const reqData = message.metadata[x402Utils.REQUIRED_KEY];
-    if (reqData) {
-      try {
-        return reqData as x402PaymentRequiredResponse;
-      } catch {
-        return null;
-      }
-    }
-    return null;
+    return this.parseMetadataValue(
+      x402PaymentRequiredResponseSchema,
+      found.value,
+      found.path
+    );
   }
 
   getPaymentRequirementsFromTask(
@@ -131,18 +238,18 @@ export class x402Utils {
   }
 
   getPaymentPayloadFromMessage(message: Message): PaymentPayload | null {
-    if (!message?.metadata) {
+    const metadata = this.getMetadata(message);
+    if (!metadata) {
       return null;
     }
 
-    const payloadData = message.metadata[x402Utils.PAYLOAD_KEY];
+    const payloadData = metadata[x402Utils.PAYLOAD_KEY];
     if (payloadData) {
-      try {
-        return parsePaymentPayload(payloadData);
-      } catch (error) {
-        logger.error("Failed to parse payment payload:", error);
-        return null;
-      }
+      return this.parseMetadataValue(
+        PaymentPayloadSchema,
+        payloadData,
+        `metadata["${x402Utils.PAYLOAD_KEY}"]`
+      );
     }
     return null;
   }
@@ -187,6 +294,7 @@ export class x402Utils {
     task.status.message.metadata[x402Utils.STATUS_KEY] =
       PaymentStatus.PAYMENT_REQUIRED;
     task.status.message.metadata[x402Utils.REQUIRED_KEY] = paymentRequired;
+    this.syncDataParts(task.status.message);
 
     return task;
   }
@@ -241,6 +349,7 @@ export class x402Utils {
     // Clean up intermediate data
     delete task.status.message.metadata[x402Utils.PAYLOAD_KEY];
     delete task.status.message.metadata[x402Utils.REQUIRED_KEY];
+    this.syncDataParts(task.status.message);
 
     return task;
   }
@@ -284,25 +393,110 @@ export class x402Utils {
 
     // Clean up intermediate data
     delete task.status.message.metadata[x402Utils.PAYLOAD_KEY];
+    this.syncDataParts(task.status.message);
+
+    return task;
+  }
+
+  recordDeliveryFailure(task: Task, errorCode: string): Task {
+    // The payment stands but the service could not be delivered; not retryable
+    if (!task.status) {
+      task.status = { state: TaskState.FAILED };
+    } else {
+      task.status.state = TaskState.FAILED;
+    }
+
+    // Ensure task has a status message for metadata
+    if (!task.status.message) {
+      task.status.message = {
+        messageId: `${task.id}-status`,
+        role: "agent",
+        parts: [{ kind: "text", text: "Service delivery failed." }],
+        metadata: {},
+      };
+    }
+
+    // Ensure message has metadata
+    if (!task.status.message.metadata) {
+      task.status.message.metadata = {};
+    }
 
+    task.status.message.metadata[x402Utils.ERROR_KEY] = errorCode;
+
+    return task;
+  }
+
+  /**
+   * Stores a confirmation on the receipt of its transaction. Until the payment
+   * is final it reads as verified; once confirmed it is completed, and a
+   * reverted, reorged or unconfirmed payment fails the task. The receipt
+   * keeps the transaction so the merchant can reconcile it.
+   */
+  recordSettlementConfirmation(
+    task: Task,
+    confirmation: SettlementConfirmation
+  ): Task {
+    const metadata = task.status?.message?.metadata;
+    const receipts: SettleResponse[] = metadata?.[x402Utils.RECEIPTS_KEY] || [];
+    const receipt = [...receipts]
+      .reverse()
+      .find((entry) => entry.transaction === confirmation.transaction);
+    if (!metadata || !receipt) {
+      logger.warn(`No receipt for transaction ${confirmation.transaction} on task ${task.id}`);
+      return task;
+    }
+    receipt.confirmation = confirmation;
+
+    switch (confirmation.status) {
+      case ConfirmationStatus.PENDING:
+        metadata[x402Utils.STATUS_KEY] = PaymentStatus.PAYMENT_VERIFIED;
+        break;
+      case ConfirmationStatus.CONFIRMED:
+        metadata[x402Utils.STATUS_KEY] = PaymentStatus.PAYMENT_COMPLETED;
+        break;
+      default:
+        // The quote is consumed and the nonce stays claimed, and a reorged or
+        // unconfirmed transaction may still land, so no new payment is asked for
+        task.status.state = TaskState.FAILED;
+        metadata[x402Utils.STATUS_KEY] = PaymentStatus.PAYMENT_FAILED;
+        metadata[x402Utils.ERROR_KEY] =
+          confirmation.status === ConfirmationStatus.REORGED
+            ? x402ErrorCode.SETTLEMENT_REORGED
+            : confirmation.status === ConfirmationStatus.REVERTED
+              ? x402ErrorCode.SETTLEMENT_FAILED
+              : x402ErrorCode.SETTLEMENT_UNCONFIRMED;
+    }
+    this.syncDataParts(task.status.message!);
     return task;
   }
 
   getPaymentReceiptsFromMessage(message: Message): SettleResponse[] {
-    if (!message?.metadata) {
+    const found = this.findPaymentValue(message, x402Utils.RECEIPTS_KEY);
+    if (!found) {
       return [];
     }
 
-    const receiptsData = message.metadata[x402Utils.RECEIPTS_KEY] || [];
-    const receipts: SettleResponse[] = [];
-
-    for (const receiptData of receiptsData) {
-      try {
-        receipts.push(receiptData as SettleResponse);
-      } catch {
-        continue;
+    const { path } = found;
+    const receiptsData = found.value;
+    if (!Array.isArray(receiptsData)) {
+      if (this.strict) {
+        throw new ValidationError(`${path} must be an array`, path);
       }
+      logger.warn(`Ignoring invalid x402 metadata: ${path} must be an array`);
+      return [];
     }
+
+    const receipts: SettleResponse[] = [];
+    receiptsData.forEach((receiptData, index) => {
+      const receipt = this.parseMetadataValue(
+        SettleResponseSchema,
+        receiptData,
+        `${path}[${index}]`
+      );
+      if (receipt) {
+        receipts.push(receipt);
+      }
+    });
     return receipts;
   }
 
@@ -322,6 +516,24 @@ export class x402Utils {
     return receipts.length > 0 ? receipts[receipts.length - 1] : null;
   }
 
+  /**
+   * Receipts recorded anywhere in the task's history, oldest first, including
+   * those of payments the task has since moved past
+   */
+  getPaymentReceiptHistory(task: Task): SettleResponse[] {
+    const messages = [...(task?.history || [])];
+    const statusMessage = task?.status?.message;
+    if (
+      statusMessage &&
+      !messages.some((message) => message.messageId === statusMessage.messageId)
+    ) {
+      messages.push(statusMessage);
+    }
+    return messages
+      .filter((message) => message.role === "agent")
+      .flatMap((message) => this.getPaymentReceiptsFromMessage(message));
+  }
+
   recordPaymentSubmission(task: Task, paymentPayload: PaymentPayload): Task {
     // Ensure task has a status message for metadata
     if (!task.status.message) {
@@ -0,0 +1,229 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+/**
+ * Validation of incoming payment payloads against the quoted requirements
+ */
+
+import { TypedDataDomain, verifyTypedData } from "ethers";
+import {
+  PaymentPayload,
+  PaymentRequirements,
+} from "../types/state";
+import { x402ErrorCode } from "../types/errors";
+import { PaymentPayloadSchema, checkSchema } from "./schemas";
+import {
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  getTransferWithAuthorizationDomain,
+} from "./wallet";
+
+export interface PaymentValidationOptions {
+  /**
+   * x402 protocol version the payload must declare (defaults to 1)
+   */
+  x402Version?: number;
+  /**
+   * Current time in unix seconds (defaults to the system clock)
+   */
+  now?: number;
+  /**
+   * Tolerance applied to the validity window checks (defaults to 5 seconds)
+   */
+  clockSkewSeconds?: number;
+}
+
+export interface PaymentValidationResult {
+  isValid: boolean;
+  /**
+   * The accepts entry the payload was matched against, if any
+   */
+  requirement?: PaymentRequirements;
+  errorCode?: string;
+  invalidReason?: string;
+}
+
+function invalid(errorCode: string, invalidReason: string): PaymentValidationResult {
+  return { isValid: false, errorCode, invalidReason };
+}
+
+/**
+ * Checks that data has the shape of an "exact" EVM PaymentPayload.
+ * Returns a description of the first problem found, or null.
+ */
+export function checkPaymentPayloadStructure(data: unknown): string | null {
+  const [issue] = checkSchema(PaymentPayloadSchema, data);
+  return issue ? `${issue.path} ${issue.message}` : null;
+}
+
+/**
+ * Checks that the authorization was signed for the requirement's asset. The
+ * payload names no asset; it is bound by the EIP-712 domain, whose
+ * verifyingContract is the token. Returns the failure, or null.
+ */
+function checkAssetSignature(
+  payload: PaymentPayload,
+  requirement: PaymentRequirements
+): PaymentValidationResult | null {
+  const { authorization, signature } = payload.payload;
+
+  let domain: TypedDataDomain;
+  try {
+    domain = getTransferWithAuthorizationDomain(requirement);
+  } catch (error) {
+    // The merchant quoted an asset whose domain it does not know, whatever the payer signed
+    return invalid(
+      x402ErrorCode.UNSUPPORTED_PAYMENT_KIND,
+      `Cannot verify payments in asset ${requirement.asset}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  let recovered: string;
+  try {
+    recovered = verifyTypedData(
+      domain,
+      TRANSFER_WITH_AUTHORIZATION_TYPES,
+      {
+        from: authorization.from,
+        to: authorization.to,
+        value: authorization.value,
+        validAfter: authorization.validAfter,
+        validBefore: authorization.validBefore,
+        nonce: authorization.nonce,
+      },
+      signature
+    );
+  } catch (error) {
+    return invalid(
+      x402ErrorCode.INVALID_PAYLOAD,
+      `Signature could not be recovered: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (recovered.toLowerCase() !== authorization.from.toLowerCase()) {
+    return invalid(
+      x402ErrorCode.INVALID_SIGNATURE,
+      `Authorization is not signed by ${authorization.from} for asset ${requirement.asset}`
+    );
+  }
+  return null;
+}
+
+/**
+ * Checks a single requirement against an already structurally valid payload
+ */
+function checkAgainstRequirement(
+  payload: PaymentPayload,
+  requirement: PaymentRequirements,
+  now: number,
+  clockSkewSeconds: number
+): PaymentValidationResult {
+  const authorization = payload.payload.authorization;
+
+  const signatureFailure = checkAssetSignature(payload, requirement);
+  if (signatureFailure) {
+    return signatureFailure;
+  }
+
+  if (authorization.to.toLowerCase() !== requirement.payTo.toLowerCase()) {
+    return invalid(
+      x402ErrorCode.RECIPIENT_MISMATCH,
+      `Authorization pays ${authorization.to}, expected ${requirement.payTo}`
+    );
+  }
+
+  if (BigInt(authorization.value) < BigInt(requirement.maxAmountRequired)) {
+    return invalid(
+      x402ErrorCode.INVALID_AMOUNT,
+      `Authorization value ${authorization.value} is below the required ${requirement.maxAmountRequired}`
+    );
+  }
+
+  const validAfter = Number(authorization.validAfter);
+  const validBefore = Number(authorization.validBefore);
+  if (validBefore <= now) {
+    return invalid(x402ErrorCode.EXPIRED_PAYMENT, "Authorization has expired");
+  }
+  if (validAfter > now + clockSkewSeconds) {
+    return invalid(x402ErrorCode.EXPIRED_PAYMENT, "Authorization is not yet valid");
+  }
+  if (validBefore - Math.max(validAfter, now) > requirement.maxTimeoutSeconds + clockSkewSeconds) {
+    return invalid(
+      x402ErrorCode.EXPIRED_PAYMENT,
+      `Authorization validity window exceeds maxTimeoutSeconds (${requirement.maxTimeoutSeconds})`
+    );
+  }
+
+  return { isValid: true, requirement };
+}
+
+/**
+ * Validates an incoming payment payload and matches it to one of the quoted
+ * accepts entries. Each failure carries the matching x402ErrorCode.
+ */
+export function validatePaymentPayload(
+  data: unknown,
+  accepts: PaymentRequirements[],
+  options: PaymentValidationOptions = {}
+): PaymentValidationResult {
+  const {
+    x402Version = 1,
+    now = Math.floor(Date.now() / 1000),
+    clockSkewSeconds = 5,
+  } = options;
+
+  const structureError = checkPaymentPayloadStructure(data);
+  if (structureError) {
+    return invalid(x402ErrorCode.INVALID_PAYLOAD, `Malformed payment payload: ${structureError}`);
+  }
+
+  const payload = data as PaymentPayload;
+  if (payload.x402Version !== x402Version) {
+    return invalid(
+      x402ErrorCode.VERSION_MISMATCH,
+      `Unsupported x402Version ${payload.x402Version}, expected ${x402Version}`
+    );
+  }
+
+  const sameNetwork = accepts.filter((req) => req.network === payload.network);
+  if (sameNetwork.length === 0) {
+    return invalid(
+      x402ErrorCode.NETWORK_MISMATCH,
+      `Network "${payload.network}" was not offered`
+    );
+  }
+
+  const candidates = sameNetwork.filter((req) => req.scheme === payload.scheme);
+  if (candidates.length === 0) {
+    return invalid(
+      x402ErrorCode.INVALID_PAYLOAD,
+      `Scheme "${payload.scheme}" was not offered on network "${payload.network}"`
+    );
+  }
+
+  // Prefer the entry priced exactly at the authorized value, e.g. among tiers
+  const value = payload.payload.authorization.value;
+  candidates.sort(
+    (a, b) =>
+      Number(b.maxAmountRequired === value) - Number(a.maxAmountRequired === value)
+  );
+
+  let firstFailure: PaymentValidationResult | null = null;
+  for (const requirement of candidates) {
+    const result = checkAgainstRequirement(payload, requirement, now, clockSkewSeconds);
+    if (result.isValid) {
+      return result;
+    }
+    firstFailure = firstFailure || { ...result, requirement };
+  }
+  return firstFailure!;
+}
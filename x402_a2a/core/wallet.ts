@@ -15,7 +15,7 @@
  * Payment signing and processing functions
  */
 
-import { Wallet, TypedDataDomain, TypedDataField } from "ethers";
+import { TypedDataDomain, TypedDataField } from "ethers";
 import {
   PaymentRequirements,
   x402PaymentRequiredResponse,
@@ -23,33 +23,125 @@ import {
   ExactPaymentPayload,
   EIP3009Authorization,
   SupportedNetworks,
+  PaymentRequirementSelector,
+  PaymentSigner,
 } from "../types/state";
+import { AtomicAmount } from "../types/config";
+import { SpendingPolicyError } from "../types/errors";
+import { networkRegistry } from "./networks";
+import { toAtomicAmount } from "./money";
+import { SpendingDecision, SpendingPolicy } from "./policy";
+
+export interface ProcessPaymentOptions {
+  /**
+   * Policy every payment must pass before it is signed
+   */
+  policy?: SpendingPolicy;
+  /**
+   * Receives the id the policy recorded the payment under, so the caller can
+   * release it if the merchant does not settle the payment
+   */
+  onAuthorized?: (spendId: string) => void;
+  /**
+   * Strategy for ranking the accepts entries (defaults to the merchant's order)
+   */
+  selector?: PaymentRequirementSelector;
+}
+
+export interface SelectPaymentRequirementOptions extends ProcessPaymentOptions {
+  maxValue?: AtomicAmount;
+  /**
+   * Address of the paying signer, passed to the selector
+   */
+  payer?: string;
+}
 
 /**
- * Select payment requirement from accepts array (simple implementation)
+ * Chooses which accepts entry to pay. Every client path goes through here:
+ * entries above maxValue are dropped, the selector ranks the rest, and the
+ * first one the spending policy allows is returned.
  */
-function selectPaymentRequirement(
+export async function selectPaymentRequirement(
   accepts: PaymentRequirements[],
-  maxValue?: number
-): PaymentRequirements {
-  // Simple selection: return first requirement
-  // In a real implementation, this would check maxValue and other criteria
+  options: SelectPaymentRequirementOptions = {}
+): Promise<PaymentRequirements> {
+  const { maxValue, policy, selector, payer } = options;
   if (accepts.length === 0) {
     throw new Error("No payment requirements available");
   }
 
+  let affordable = accepts;
   if (maxValue !== undefined) {
     // Filter by max value
-    const affordable = accepts.filter(
-      (req) => parseInt(req.maxAmountRequired) <= maxValue
+    const limit = toAtomicAmount(maxValue);
+    affordable = accepts.filter(
+      (req) => toAtomicAmount(req.maxAmountRequired) <= limit
     );
     if (affordable.length === 0) {
       throw new Error("No affordable payment requirements found");
     }
-    return affordable[0];
   }
 
-  return accepts[0];
+  const ranked = selector
+    ? await selector.rank(affordable, { payer })
+    : affordable;
+  if (ranked.length === 0) {
+    throw new Error("No payment requirements match the selection strategy");
+  }
+
+  if (!policy) {
+    return ranked[0];
+  }
+
+  let refusal: SpendingDecision | undefined;
+  for (const requirement of ranked) {
+    const decision = await policy.evaluate(requirement);
+    if (decision.allowed) {
+      return requirement;
+    }
+    refusal = refusal || decision;
+  }
+  throw new SpendingPolicyError(refusal!.reason!, refusal!.errorCode!);
+}
+
+/**
+ * EIP-712 types for EIP-3009 transferWithAuthorization
+ */
+export const TRANSFER_WITH_AUTHORIZATION_TYPES: Record<string, TypedDataField[]> = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+/**
+ * Build the EIP-712 domain the asset contract uses for transferWithAuthorization.
+ * The name and version quoted in requirements.extra take precedence over the
+ * asset registry; an asset known to neither is rejected rather than guessed.
+ */
+export function getTransferWithAuthorizationDomain(
+  requirements: PaymentRequirements
+): TypedDataDomain {
+  const asset = networkRegistry.findAsset(requirements.network, requirements.asset);
+  const name = requirements.extra?.name || asset?.eip712.name;
+  const version = requirements.extra?.version || asset?.eip712.version;
+  if (!name || !version) {
+    throw new Error(
+      `No EIP-712 domain known for asset ${requirements.asset} on network "${requirements.network}". ` +
+        "Quote extra.name and extra.version or register the asset with registerAsset"
+    );
+  }
+
+  return {
+    name,
+    version,
+    chainId: getChainId(requirements.network as SupportedNetworks),
+    verifyingContract: requirements.asset,
+  };
 }
 
 /**
@@ -62,18 +154,32 @@ function generateNonce(): string {
 }
 
 /**
- * Process full payment required response using wallet signing logic
+ * Process full payment required response using the signer
  */
 export async function processPaymentRequired(
   paymentRequired: x402PaymentRequiredResponse,
-  wallet: Wallet,
-  maxValue?: number
+  signer: PaymentSigner,
+  maxValue?: AtomicAmount,
+  options: ProcessPaymentOptions = {}
 ): Promise<PaymentPayload> {
-  const selectedRequirement = selectPaymentRequirement(
+  const { policy } = options;
+  const selectedRequirement = await selectPaymentRequirement(
     paymentRequired.accepts,
-    maxValue
+    { ...options, maxValue, payer: signer.address }
   );
-  return processPayment(selectedRequirement, wallet, maxValue);
+  if (!policy) {
+    return processPayment(selectedRequirement, signer, maxValue);
+  }
+
+  // Asks for approval if needed and records the spend before signing
+  const spendId = await policy.authorize(selectedRequirement);
+  options.onAuthorized?.(spendId);
+  try {
+    return await processPayment(selectedRequirement, signer, maxValue);
+  } catch (error) {
+    await policy.release(spendId);
+    throw error;
+  }
 }
 
 /**
@@ -81,13 +187,13 @@ export async function processPaymentRequired(
  */
 export async function processPayment(
   requirements: PaymentRequirements,
-  wallet: Wallet,
-  maxValue?: number
+  signer: PaymentSigner,
+  maxValue?: AtomicAmount
 ): Promise<PaymentPayload> {
   // Validate max value if provided
   if (maxValue !== undefined) {
-    const requiredAmount = parseInt(requirements.maxAmountRequired);
-    if (requiredAmount > maxValue) {
+    const requiredAmount = toAtomicAmount(requirements.maxAmountRequired);
+    if (requiredAmount > toAtomicAmount(maxValue)) {
       throw new Error(
         `Payment amount ${requiredAmount} exceeds max value ${maxValue}`
       );
@@ -104,7 +210,7 @@ export async function processPayment(
 
   // Create authorization object
   const authorization: EIP3009Authorization = {
-    from: wallet.address,
+    from: signer.address,
     to: requirements.payTo,
     value: requirements.maxAmountRequired,
     validAfter,
@@ -113,27 +219,10 @@ export async function processPayment(
   };
 
   // EIP-712 domain
-  const domain: TypedDataDomain = {
-    name: requirements.extra?.name || "USDC",
-    version: requirements.extra?.version || "2",
-    chainId: getChainId(requirements.network as SupportedNetworks),
-    verifyingContract: requirements.asset,
-  };
-
-  // EIP-712 types for EIP-3009
-  const types: Record<string, TypedDataField[]> = {
-    TransferWithAuthorization: [
-      { name: "from", type: "address" },
-      { name: "to", type: "address" },
-      { name: "value", type: "uint256" },
-      { name: "validAfter", type: "uint256" },
-      { name: "validBefore", type: "uint256" },
-      { name: "nonce", type: "bytes32" },
-    ],
-  };
+  const domain = getTransferWithAuthorizationDomain(requirements);
 
   // Sign the authorization
-  const signature = await wallet.signTypedData(domain, types, {
+  const signature = await signer.signTypedData(domain, TRANSFER_WITH_AUTHORIZATION_TYPES, {
     from: authorization.from,
     to: authorization.to,
     value: authorization.value,
@@ -160,20 +249,6 @@ export async function processPayment(
 /**
  * Get chain ID for network
  */
-function getChainId(network: SupportedNetworks): number {
-  const chainIds: Record<string, number> = {
-    base: 8453,
-    "base-sepolia": 84532,
-    ethereum: 1,
-    polygon: 137,
-    "polygon-amoy": 80002,
-  };
-
-  if (!(network in chainIds)) {
-    throw new Error(
-      `Unsupported network "${network}". Supported networks: ${Object.keys(chainIds).join(", ")}`
-    );
-  }
-
-  return chainIds[network];
+export function getChainId(network: SupportedNetworks): number {
+  return networkRegistry.getChainId(network);
 }
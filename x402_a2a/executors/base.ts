@@ -20,9 +20,14 @@ import {
   RequestContext,
   EventQueue,
 } from "../types/state";
-import { x402ExtensionConfig, DEFAULT_X402_EXTENSION_CONFIG } from "../types/config";
+import {
+  x402ExtensionConfig,
+  DEFAULT_X402_EXTENSION_CONFIG,
+  X402_EXTENSION_URI,
+} from "../types/config";
 import { x402Utils } from "../core/utils";
 import { checkExtensionActivation } from "../core/agent";
+import { ExtensionNotActivatedError } from "../types/errors";
 
 export abstract class x402BaseExecutor implements AgentExecutor {
   protected _delegate: AgentExecutor;
@@ -32,16 +37,38 @@ export abstract class x402BaseExecutor implements AgentExecutor {
   constructor(delegate: AgentExecutor, config?: Partial<x402ExtensionConfig>) {
     this._delegate = delegate;
     this.config = { ...DEFAULT_X402_EXTENSION_CONFIG, ...config };
-    this.utils = new x402Utils();
+    // Malformed x402 metadata from the remote side surfaces as an error here
+    this.utils = new x402Utils({ strict: true });
   }
 
   /**
-   * Check if x402 extension is active for this request
+   * Check if x402 extension is active for this request: the client listed it
+   * in X-A2A-Extensions, or the transport passed no headers to check
    */
   protected isActive(context: RequestContext): boolean {
-    // For now, assume always active
-    // In a full implementation, this would check request headers
-    return true;
+    if (!context.headers) {
+      return true;
+    }
+    return checkExtensionActivation(context.headers, this.getExtensionUri());
+  }
+
+  /**
+   * Whether to apply the payment logic to this request. Requests that did not
+   * activate the extension bypass it, or are rejected with
+   * ExtensionNotActivatedError when config.required is set.
+   */
+  protected shouldHandlePayments(context: RequestContext): boolean {
+    if (this.isActive(context)) {
+      return true;
+    }
+    if (this.config.required) {
+      throw new ExtensionNotActivatedError(this.getExtensionUri());
+    }
+    return false;
+  }
+
+  protected getExtensionUri(): string {
+    return this.config.extensionUri || X402_EXTENSION_URI;
   }
 
   abstract execute(context: RequestContext, eventQueue: EventQueue): Promise<void>;
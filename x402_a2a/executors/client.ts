@@ -15,7 +15,6 @@
  * Client-side executor for wallet/signing implementations
  */
 
-import { Wallet } from "ethers";
 import { x402BaseExecutor } from "./base";
 import {
   AgentExecutor,
@@ -23,31 +22,54 @@ import {
   EventQueue,
   PaymentStatus,
   SettleResponse,
+  PaymentRequirementSelector,
+  PaymentSigner,
 } from "../types/state";
-import { x402ExtensionConfig } from "../types/config";
-import { processPayment } from "../core/wallet";
-import { x402ErrorCode } from "../types/errors";
+import { AtomicAmount, x402ExtensionConfig } from "../types/config";
+import { processPaymentRequired } from "../core/wallet";
+import { SpendingPolicy } from "../core/policy";
+import { SpendingPolicyError, x402ErrorCode } from "../types/errors";
+
+export interface x402ClientExecutorOptions {
+  /**
+   * Policy auto-pay must pass before signing; without one, only maxValue applies
+   */
+  spendingPolicy?: SpendingPolicy;
+  /**
+   * Strategy for choosing among the accepts entries (defaults to the merchant's order)
+   */
+  selector?: PaymentRequirementSelector;
+}
 
 export class x402ClientExecutor extends x402BaseExecutor {
-  private wallet: Wallet;
-  private maxValue?: number;
+  private signer: PaymentSigner;
+  private maxValue?: AtomicAmount;
   private autoPay: boolean;
+  protected spendingPolicy?: SpendingPolicy;
+  protected selector?: PaymentRequirementSelector;
+  /**
+   * Spend history ids of submitted payments, by task, until the merchant settles them
+   */
+  private pendingSpends: Map<string, string> = new Map();
 
   constructor(
     delegate: AgentExecutor,
-    wallet: Wallet,
+    signer: PaymentSigner,
     config?: Partial<x402ExtensionConfig>,
-    maxValue?: number,
-    autoPay: boolean = true
+    maxValue?: AtomicAmount,
+    autoPay: boolean = true,
+    options: x402ClientExecutorOptions = {}
   ) {
     super(delegate, config);
-    this.wallet = wallet;
+    this.signer = signer;
     this.maxValue = maxValue;
     this.autoPay = autoPay;
+    this.spendingPolicy = options.spendingPolicy;
+    this.selector = options.selector;
   }
 
   async execute(context: RequestContext, eventQueue: EventQueue): Promise<void> {
-    if (!this.isActive(context)) {
+    if (!this.shouldHandlePayments(context)) {
       return this._delegate.execute(context, eventQueue);
     }
 
@@ -68,28 +90,74 @@ export class x402ClientExecutor extends x402BaseExecutor {
       return;
     }
 
+    await this._resolvePendingSpend(task.id, status);
     return result;
   }
 
+  /**
+   * Returns the spend of a payment the merchant did not settle to the budgets
+   */
+  private async _resolvePendingSpend(
+    taskId: string,
+    status: PaymentStatus | null
+  ): Promise<void> {
+    const spendId = this.pendingSpends.get(taskId);
+    if (!spendId) {
+      return;
+    }
+    if (
+      status === PaymentStatus.PAYMENT_FAILED ||
+      status === PaymentStatus.PAYMENT_REJECTED
+    ) {
+      this.pendingSpends.delete(taskId);
+      await this.spendingPolicy?.release(spendId);
+    } else if (status === PaymentStatus.PAYMENT_COMPLETED) {
+      this.pendingSpends.delete(taskId);
+    }
+  }
+
   private async _autoPay(task: any, eventQueue: EventQueue): Promise<void> {
-    const paymentRequired = this.utils.getPaymentRequirements(task);
+    let paymentRequired;
+    try {
+      paymentRequired = this.utils.getPaymentRequirements(task);
+    } catch (e) {
+      // Refuse to sign against malformed requirements
+      const failureResponse: SettleResponse = {
+        success: false,
+        network: "unknown",
+        errorReason: `Invalid payment requirements: ${(e as Error).message}`,
+      };
+      this.utils.recordPaymentFailure(
+        task,
+        x402ErrorCode.INVALID_PAYLOAD,
+        failureResponse
+      );
+      await eventQueue.enqueueEvent(task);
+      return;
+    }
     if (!paymentRequired) {
       return; // No payment requirements found
     }
 
     try {
       // Process payment using wallet functions
-      const paymentPayload = await processPayment(
-        paymentRequired.accepts[0],
-        this.wallet,
-        this.maxValue
+      const paymentPayload = await processPaymentRequired(
+        paymentRequired,
+        this.signer,
+        this.maxValue,
+        {
+          policy: this.spendingPolicy,
+          selector: this.selector,
+          onAuthorized: (spendId) => this.pendingSpends.set(task.id, spendId),
+        }
       );
 
       // Submit payment authorization
       this.utils.recordPaymentSubmission(task, paymentPayload);
       await eventQueue.enqueueEvent(task);
     } catch (e) {
-      // Payment processing failed
+      // Payment processing failed; a recorded spend was already released
+      this.pendingSpends.delete(task.id);
       const error = e as Error;
       const failureResponse: SettleResponse = {
         success: false,
@@ -98,7 +166,9 @@ export class x402ClientExecutor extends x402BaseExecutor {
       };
       this.utils.recordPaymentFailure(
         task,
-        x402ErrorCode.INVALID_SIGNATURE,
+        error instanceof SpendingPolicyError
+          ? error.errorCode
+          : x402ErrorCode.INVALID_SIGNATURE,
         failureResponse
       );
       await eventQueue.enqueueEvent(task);
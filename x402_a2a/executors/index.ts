@@ -16,5 +16,5 @@
  */
 
 export { x402BaseExecutor } from "./base";
-export { x402ServerExecutor } from "./server";
-export { x402ClientExecutor } from "./client";
+export { x402ServerExecutor, x402ServerExecutorOptions } from "./server";
+export { x402ClientExecutor, x402ClientExecutorOptions } from "./client";
@@ -29,23 +29,97 @@ import {
   x402PaymentRequiredResponse,
   VerifyResponse,
   PaymentPayload,
+  PaymentRequirementsStore,
+  NonceKey,
+  NonceLedger,
+  FacilitatorClient,
+  ConfirmationTracker,
+  ConfirmationStatus,
+  SettlementConfirmation,
 } from "../types/state";
-import { x402ExtensionConfig } from "../types/config";
+import { x402ExtensionConfig, SettlementMode } from "../types/config";
 import {
   x402PaymentRequiredException,
   x402ErrorCode,
+  FacilitatorUnavailableError,
+  ExtensionNotActivatedError,
 } from "../types/errors";
 import { logger } from "../core/logger";
+import { x402Utils } from "../core/utils";
+import {
+  InMemoryPaymentRequirementsStore,
+  InMemoryNonceLedger,
+} from "../core/store";
+import { BufferedEventQueue } from "../core/queue";
+import { validatePaymentPayload } from "../core/validation";
+import { filterSupportedRequirements } from "../core/facilitator";
+
+export interface x402ServerExecutorOptions {
+  /**
+   * Where outstanding accepts arrays are kept between the payment-required
+   * response and the paid retry. Defaults to a process-wide in-memory store.
+   */
+  requirementsStore?: PaymentRequirementsStore;
+  /**
+   * Ledger of claimed authorization nonces, consulted before verification.
+   * Defaults to a process-wide in-memory ledger; share one across instances.
+   */
+  nonceLedger?: NonceLedger;
+  /**
+   * Order of delivery and settlement once a payment is verified.
+   * Defaults to SettlementMode.DELIVER_THEN_SETTLE.
+   */
+  settlementMode?: SettlementMode;
+  /**
+   * Hold back the delegate's events while settlement is still pending and
+   * release them only once the payment is recorded as completed; on failure
+   * they are dropped in favour of the failure event. Has no effect in
+   * SettlementMode.SETTLE_THEN_DELIVER, where the delegate runs after settlement.
+   */
+  bufferDelegateEvents?: boolean;
+  /**
+   * Follows each settlement transaction until it has enough confirmations.
+   * Until then the payment reads as verified and progress is published as
+   * task updates; a settlement that never confirms fails the payment, and in
+   * SettlementMode.SETTLE_THEN_DELIVER the delegate does not run.
+   */
+  confirmationTracker?: ConfirmationTracker;
+  /**
+   * Also carry payment requirements and receipts as DataParts of the status
+   * message, besides its metadata (see x402UtilsOptions.dataParts)
+   */
+  dataParts?: boolean;
+}
 
 export abstract class x402ServerExecutor extends x402BaseExecutor {
   // Class-level store to persist across requests for a single server instance
-  private static _paymentRequirementsStore: Map<
-    string,
-    PaymentRequirements[]
-  > = new Map();
-
-  constructor(delegate: AgentExecutor, config?: Partial<x402ExtensionConfig>) {
+  private static _defaultRequirementsStore: PaymentRequirementsStore =
+    new InMemoryPaymentRequirementsStore();
+  private static _defaultNonceLedger: NonceLedger = new InMemoryNonceLedger();
+
+  protected requirementsStore: PaymentRequirementsStore;
+  protected nonceLedger: NonceLedger;
+  protected settlementMode: SettlementMode;
+  protected bufferDelegateEvents: boolean;
+  protected confirmationTracker?: ConfirmationTracker;
+
+  constructor(
+    delegate: AgentExecutor,
+    config?: Partial<x402ExtensionConfig>,
+    options?: x402ServerExecutorOptions
+  ) {
     super(delegate, config);
+    this.requirementsStore =
+      options?.requirementsStore || x402ServerExecutor._defaultRequirementsStore;
+    this.nonceLedger =
+      options?.nonceLedger || x402ServerExecutor._defaultNonceLedger;
+    this.settlementMode =
+      options?.settlementMode || SettlementMode.DELIVER_THEN_SETTLE;
+    this.bufferDelegateEvents = options?.bufferDelegateEvents ?? false;
+    this.confirmationTracker = options?.confirmationTracker;
+    if (options?.dataParts) {
+      this.utils = new x402Utils({ strict: true, dataParts: true });
+    }
   }
 
   /**
@@ -64,7 +138,20 @@ export abstract class x402ServerExecutor extends x402BaseExecutor {
     requirements: PaymentRequirements
   ): Promise<SettleResponse>;
 
+  /**
+   * Facilitator whose supported kinds decide which accepts entries are quoted.
+   * Returns undefined by default, which quotes every entry; override it to
+   * stop offering payments the facilitator cannot settle.
+   */
+  protected getFacilitator(): FacilitatorClient | undefined {
+    return undefined;
+  }
+
   async execute(context: RequestContext, eventQueue: EventQueue): Promise<void> {
+    if (!this.shouldHandlePayments(context)) {
+      return this._executeWithoutPayments(context, eventQueue);
+    }
+
     // Check if this is a payment submission
     const taskStatus = this.utils.getPaymentStatusFromTask(context.currentTask!);
     const messageStatus = this.utils.getPaymentStatusFromMessage(context.message);
@@ -88,6 +175,27 @@ export abstract class x402ServerExecutor extends x402BaseExecutor {
     }
   }
 
+  /**
+   * Runs the delegate for a client that did not activate x402. Such a client
+   * cannot pay, so a request for payment is refused instead of quoted.
+   */
+  private async _executeWithoutPayments(
+    context: RequestContext,
+    eventQueue: EventQueue
+  ): Promise<void> {
+    try {
+      return await this._delegate.execute(context, eventQueue);
+    } catch (error) {
+      if (error instanceof x402PaymentRequiredException) {
+        throw new ExtensionNotActivatedError(
+          this.getExtensionUri(),
+          `Payment is required, but the client did not activate the ${this.getExtensionUri()} extension`
+        );
+      }
+      throw error;
+    }
+  }
+
   private async _processPaidRequest(
     context: RequestContext,
     eventQueue: EventQueue
@@ -103,9 +211,20 @@ export abstract class x402ServerExecutor extends x402BaseExecutor {
       `✅ Received payment payload. Beginning verification for task: ${task.id}`
     );
 
-    const paymentPayload =
-      this.utils.getPaymentPayload(task) ||
-      this.utils.getPaymentPayloadFromMessage(context.message);
+    let paymentPayload: PaymentPayload | null;
+    try {
+      paymentPayload =
+        this.utils.getPaymentPayload(task) ||
+        this.utils.getPaymentPayloadFromMessage(context.message);
+    } catch (error) {
+      logger.warn(`Malformed payment payload: ${(error as Error).message}`);
+      return this._failPayment(
+        task,
+        x402ErrorCode.INVALID_PAYLOAD,
+        `Malformed payment payload: ${(error as Error).message}`,
+        eventQueue
+      );
+    }
 
     if (!paymentPayload) {
       logger.warn(
@@ -113,7 +232,7 @@ export abstract class x402ServerExecutor extends x402BaseExecutor {
       );
       return this._failPayment(
         task,
-        x402ErrorCode.INVALID_SIGNATURE,
+        x402ErrorCode.INVALID_PAYLOAD,
         "Missing payment data",
         eventQueue
       );
@@ -121,25 +240,52 @@ export abstract class x402ServerExecutor extends x402BaseExecutor {
 
     logger.log(`Retrieved payment payload: ${JSON.stringify(paymentPayload, null, 2)}`);
 
-    const paymentRequirements = this._extractPaymentRequirementsFromContext(
-      task,
-      context
-    );
-
-    if (!paymentRequirements) {
-      logger.warn("Payment requirements missing from context.");
+    const acceptsArray = await this.requirementsStore.get(task.id);
+    if (!acceptsArray) {
+      logger.warn(
+        `No payment requirements found in store for task ID: ${task.id}`
+      );
       return this._failPayment(
         task,
-        x402ErrorCode.INVALID_SIGNATURE,
+        x402ErrorCode.EXPIRED_PAYMENT,
         "Missing payment requirements",
         eventQueue
       );
     }
 
+    const validation = validatePaymentPayload(paymentPayload, acceptsArray, {
+      x402Version: this.config.x402Version,
+    });
+    if (!validation.isValid || !validation.requirement) {
+      logger.warn(`Payment payload rejected: ${validation.invalidReason}`);
+      return this._failPayment(
+        task,
+        validation.errorCode || x402ErrorCode.INVALID_PAYLOAD,
+        validation.invalidReason || "Invalid payment payload",
+        eventQueue
+      );
+    }
+
+    const paymentRequirements = validation.requirement;
     logger.log(
       `Retrieved payment requirements: ${JSON.stringify(paymentRequirements, null, 2)}`
     );
 
+    const nonceKey = this._getNonceKey(paymentPayload, paymentRequirements);
+    if (nonceKey) {
+      const validBefore = Number(paymentPayload.payload.authorization.validBefore);
+      const reserved = await this.nonceLedger.reserve(nonceKey, validBefore);
+      if (!reserved) {
+        logger.warn(`Authorization nonce already used: ${nonceKey.nonce}`);
+        return this._failPayment(
+          task,
+          x402ErrorCode.DUPLICATE_NONCE,
+          "Authorization nonce has already been used",
+          eventQueue
+        );
+      }
+    }
+
     try {
       logger.log("Calling verifyPayment...");
       const verifyResponse = await this.verifyPayment(
@@ -153,6 +299,7 @@ export abstract class x402ServerExecutor extends x402BaseExecutor {
         logger.warn(
           `Payment verification failed: ${verifyResponse.invalidReason}`
         );
+        await this._releaseNonce(nonceKey);
         return this._failPayment(
           task,
           x402ErrorCode.INVALID_SIGNATURE,
@@ -162,6 +309,16 @@ export abstract class x402ServerExecutor extends x402BaseExecutor {
       }
     } catch (error) {
       logger.error("Exception during payment verification:", error);
+      await this._releaseNonce(nonceKey);
+      if (error instanceof FacilitatorUnavailableError) {
+        // The payment may be fine; the client can resubmit it later
+        return this._failPayment(
+          task,
+          x402ErrorCode.FACILITATOR_UNAVAILABLE,
+          `Facilitator unavailable: ${error.message}`,
+          eventQueue
+        );
+      }
       return this._failPayment(
         task,
         x402ErrorCode.INVALID_SIGNATURE,
@@ -180,105 +337,316 @@ export abstract class x402ServerExecutor extends x402BaseExecutor {
     }
     task.metadata["x402_payment_verified"] = true;
 
-    try {
-      logger.log("Executing delegate agent...");
-      await this._delegate.execute(context, eventQueue);
-      logger.log("Delegate agent execution finished.");
-    } catch (error) {
-      logger.error("Exception during delegate execution:", error);
+    switch (this.settlementMode) {
+      case SettlementMode.SETTLE_THEN_DELIVER:
+        return this._settleThenDeliver(
+          context,
+          eventQueue,
+          paymentPayload,
+          paymentRequirements,
+          nonceKey
+        );
+      case SettlementMode.SETTLE_ASYNC:
+        return this._settleAsyncAndDeliver(
+          context,
+          eventQueue,
+          paymentPayload,
+          paymentRequirements,
+          nonceKey
+        );
+      default:
+        return this._deliverThenSettle(
+          context,
+          eventQueue,
+          paymentPayload,
+          paymentRequirements,
+          nonceKey
+        );
+    }
+  }
+
+  /**
+   * verify → deliver → settle: the service runs before the payment is collected
+   */
+  private async _deliverThenSettle(
+    context: RequestContext,
+    eventQueue: EventQueue,
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    nonceKey: NonceKey | null
+  ): Promise<void> {
+    const task = context.currentTask!;
+    const buffer = this._createDeliveryBuffer(eventQueue);
+
+    const deliveryError = await this._deliver(context, buffer || eventQueue);
+    if (deliveryError) {
+      buffer?.discard();
+      // Nothing was delivered or collected, so the authorization may be reused
+      await this._releaseNonce(nonceKey);
       return this._failPayment(
         task,
-        x402ErrorCode.SETTLEMENT_FAILED,
-        `Service failed: ${error}`,
+        x402ErrorCode.DELIVERY_FAILED,
+        `Service failed: ${deliveryError}`,
         eventQueue
       );
     }
 
     logger.log("Delegate execution complete. Proceeding to settlement.");
 
+    const { settleResponse, errorCode } = await this._settle(
+      paymentPayload,
+      paymentRequirements
+    );
+    const settled = await this._recordSettlement(task, settleResponse, errorCode);
+    const confirmed =
+      settled && (await this._awaitConfirmation(task, settleResponse, eventQueue));
+    await this._releaseDeliveryBuffer(buffer, confirmed);
+    await eventQueue.enqueueEvent(task);
+    logger.log("Settlement processing finished.");
+  }
+
+  /**
+   * verify → settle → deliver: the service only runs once the payment is collected
+   */
+  private async _settleThenDeliver(
+    context: RequestContext,
+    eventQueue: EventQueue,
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    nonceKey: NonceKey | null
+  ): Promise<void> {
+    const task = context.currentTask!;
+
+    const { settleResponse, errorCode } = await this._settle(
+      paymentPayload,
+      paymentRequirements
+    );
+    const settled = await this._recordSettlement(task, settleResponse, errorCode);
+    const confirmed =
+      settled && (await this._awaitConfirmation(task, settleResponse, eventQueue));
+    await eventQueue.enqueueEvent(task);
+
+    if (!settled) {
+      await this._releaseNonce(nonceKey);
+      logger.log("Settlement failed. Skipping delivery.");
+      return;
+    }
+    if (!confirmed) {
+      logger.log("Settlement was not confirmed. Skipping delivery.");
+      return;
+    }
+
+    logger.log("Settlement complete. Proceeding to delivery.");
+
+    const deliveryError = await this._deliver(context, eventQueue);
+    if (deliveryError) {
+      this.utils.recordDeliveryFailure(task, x402ErrorCode.DELIVERY_FAILED);
+      await eventQueue.enqueueEvent(task);
+    }
+  }
+
+  /**
+   * verify → settle-async → deliver: settlement is submitted before the service
+   * runs and both proceed concurrently; the outcome is recorded once both finish
+   */
+  private async _settleAsyncAndDeliver(
+    context: RequestContext,
+    eventQueue: EventQueue,
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements,
+    nonceKey: NonceKey | null
+  ): Promise<void> {
+    const task = context.currentTask!;
+    const buffer = this._createDeliveryBuffer(eventQueue);
+
+    const settlement = this._settle(paymentPayload, paymentRequirements);
+    const deliveryError = await this._deliver(context, buffer || eventQueue);
+    const { settleResponse, errorCode } = await settlement;
+
+    const settled = await this._recordSettlement(task, settleResponse, errorCode);
+    const confirmed =
+      settled && (await this._awaitConfirmation(task, settleResponse, eventQueue));
+    await this._releaseDeliveryBuffer(buffer, confirmed && !deliveryError);
+    if (confirmed && deliveryError) {
+      this.utils.recordDeliveryFailure(task, x402ErrorCode.DELIVERY_FAILED);
+    } else if (!settled && deliveryError) {
+      await this._releaseNonce(nonceKey);
+    }
+
+    await eventQueue.enqueueEvent(task);
+    logger.log("Settlement processing finished.");
+  }
+
+  private _createDeliveryBuffer(
+    eventQueue: EventQueue
+  ): BufferedEventQueue | null {
+    return this.bufferDelegateEvents ? new BufferedEventQueue(eventQueue) : null;
+  }
+
+  /**
+   * Flushes held delegate events after a recorded payment success, drops them otherwise
+   */
+  private async _releaseDeliveryBuffer(
+    buffer: BufferedEventQueue | null,
+    release: boolean
+  ): Promise<void> {
+    if (!buffer) {
+      return;
+    }
+    if (release) {
+      await buffer.flush();
+    } else {
+      const dropped = buffer.discard();
+      logger.log(`Dropped ${dropped} buffered delegate event(s).`);
+    }
+  }
+
+  /**
+   * Runs the delegate, returning the error it threw, if any
+   */
+  private async _deliver(
+    context: RequestContext,
+    eventQueue: EventQueue
+  ): Promise<unknown | null> {
+    try {
+      logger.log("Executing delegate agent...");
+      await this._delegate.execute(context, eventQueue);
+      logger.log("Delegate agent execution finished.");
+      return null;
+    } catch (error) {
+      logger.error("Exception during delegate execution:", error);
+      return error;
+    }
+  }
+
+  /**
+   * Calls settlePayment, turning exceptions into a failed SettleResponse.
+   * errorCode is set when the failure is already classified.
+   */
+  private async _settle(
+    paymentPayload: PaymentPayload,
+    paymentRequirements: PaymentRequirements
+  ): Promise<{ settleResponse: SettleResponse; errorCode?: string }> {
     try {
       logger.log("Calling settlePayment...");
       const settleResponse = await this.settlePayment(
         paymentPayload,
         paymentRequirements
       );
-
       logger.log(`Settlement response: ${JSON.stringify(settleResponse, null, 2)}`);
-
-      if (settleResponse.success) {
-        logger.log("Settlement successful. Recording payment success.");
-        this.utils.recordPaymentSuccess(task, settleResponse);
-        x402ServerExecutor._paymentRequirementsStore.delete(task.id);
-      } else {
-        logger.warn(`Settlement failed: ${settleResponse.errorReason}`);
-        const errorCode =
-          settleResponse.errorReason?.toLowerCase().includes("insufficient")
-            ? x402ErrorCode.INSUFFICIENT_FUNDS
-            : x402ErrorCode.SETTLEMENT_FAILED;
-        this.utils.recordPaymentFailure(task, errorCode, settleResponse);
-        x402ServerExecutor._paymentRequirementsStore.delete(task.id);
-      }
-
-      await eventQueue.enqueueEvent(task);
-      logger.log("Settlement processing finished.");
+      return { settleResponse };
     } catch (error) {
       logger.error("Exception during settlement:", error);
-      await this._failPayment(
-        task,
-        x402ErrorCode.SETTLEMENT_FAILED,
-        `Settlement failed: ${error}`,
-        eventQueue
-      );
+      if (error instanceof FacilitatorUnavailableError) {
+        return {
+          settleResponse: {
+            success: false,
+            network: paymentRequirements.network,
+            errorReason: `Facilitator unavailable: ${error.message}`,
+          },
+          errorCode: x402ErrorCode.FACILITATOR_UNAVAILABLE,
+        };
+      }
+      return {
+        settleResponse: {
+          success: false,
+          network: paymentRequirements.network,
+          errorReason: `Settlement failed: ${error}`,
+        },
+      };
     }
   }
 
-  private _findMatchingPaymentRequirement(
-    acceptsArray: PaymentRequirements[],
-    paymentPayload: PaymentPayload
-  ): PaymentRequirements | null {
-    logger.log("Searching for matching payment requirement...");
-
-    for (const requirement of acceptsArray) {
-      const schemeMatch = requirement.scheme === paymentPayload.scheme;
-      const networkMatch = requirement.network === paymentPayload.network;
-
-      if (schemeMatch && networkMatch) {
-        logger.log("  => Found a matching payment requirement.");
-        return requirement;
-      }
+  /**
+   * Records the settlement outcome on the task and returns whether it succeeded
+   */
+  private async _recordSettlement(
+    task: Task,
+    settleResponse: SettleResponse,
+    failureCode?: string
+  ): Promise<boolean> {
+    await this.requirementsStore.delete(task.id);
+
+    if (settleResponse.success) {
+      logger.log("Settlement successful. Recording payment success.");
+      this.utils.recordPaymentSuccess(task, settleResponse);
+      return true;
     }
 
-    logger.warn(
-      "No matching payment requirement found after checking all options."
-    );
-    return null;
+    logger.warn(`Settlement failed: ${settleResponse.errorReason}`);
+    const errorCode =
+      failureCode ??
+      (settleResponse.errorReason?.toLowerCase().includes("insufficient")
+        ? x402ErrorCode.INSUFFICIENT_FUNDS
+        : x402ErrorCode.SETTLEMENT_FAILED);
+    this.utils.recordPaymentFailure(task, errorCode, settleResponse);
+    return false;
   }
 
-  private _extractPaymentRequirementsFromContext(
+  /**
+   * Follows a successful settlement with the confirmation tracker, publishing
+   * the task on each update before the final one, and returns whether the
+   * payment was confirmed. The final state is left for the caller to publish.
+   */
+  private async _awaitConfirmation(
     task: Task,
-    context: RequestContext
-  ): PaymentRequirements | null {
-    const acceptsArray = x402ServerExecutor._paymentRequirementsStore.get(
-      task.id
-    );
+    settleResponse: SettleResponse,
+    eventQueue: EventQueue
+  ): Promise<boolean> {
+    if (!this.confirmationTracker) {
+      return true;
+    }
 
-    if (!acceptsArray) {
-      logger.warn(
-        `No payment requirements found in store for task ID: ${task.id}`
+    let confirmation: SettlementConfirmation;
+    try {
+      confirmation = await this.confirmationTracker.track(
+        settleResponse,
+        async (update) => {
+          this.utils.recordSettlementConfirmation(task, update);
+          if (update.status === ConfirmationStatus.PENDING) {
+            await eventQueue.enqueueEvent(task);
+          }
+        }
       );
-      return null;
+    } catch (error) {
+      logger.error("Exception during confirmation tracking:", error);
+      confirmation = {
+        status: ConfirmationStatus.UNCONFIRMED,
+        transaction: settleResponse.transaction,
+        network: settleResponse.network,
+        confirmations: 0,
+        requiredConfirmations: 0,
+      };
     }
 
-    const paymentPayload =
-      this.utils.getPaymentPayload(task) ||
-      this.utils.getPaymentPayloadFromMessage(context.message);
+    this.utils.recordSettlementConfirmation(task, confirmation);
+    logger.log(
+      `Settlement ${confirmation.transaction} is ${confirmation.status} with ${confirmation.confirmations} confirmation(s).`
+    );
+    return confirmation.status === ConfirmationStatus.CONFIRMED;
+  }
 
-    if (!paymentPayload) {
-      logger.warn("Could not extract payment payload from task or message.");
+  private async _releaseNonce(nonceKey: NonceKey | null): Promise<void> {
+    if (nonceKey) {
+      await this.nonceLedger.release(nonceKey);
+    }
+  }
+
+  private _getNonceKey(
+    paymentPayload: PaymentPayload,
+    requirements: PaymentRequirements
+  ): NonceKey | null {
+    const authorization = paymentPayload.payload?.authorization;
+    if (!authorization?.from || !authorization?.nonce) {
       return null;
     }
 
-    return this._findMatchingPaymentRequirement(acceptsArray, paymentPayload);
+    return {
+      from: authorization.from,
+      nonce: authorization.nonce,
+      asset: requirements.asset,
+      network: requirements.network,
+    };
   }
 
   private async _handlePaymentRequiredException(
@@ -306,11 +674,30 @@ export abstract class x402ServerExecutor extends x402BaseExecutor {
     }
 
     // Extract payment requirements from exception
-    const acceptsArray = exception.getAcceptsArray();
+    const quoted = exception.getAcceptsArray();
     const errorMessage = exception.message;
 
+    // Only quote what the facilitator can settle
+    const facilitator = this.getFacilitator();
+    const acceptsArray = facilitator
+      ? await filterSupportedRequirements(quoted, facilitator, this.config.x402Version)
+      : quoted;
+    if (acceptsArray.length === 0) {
+      logger.error(
+        `Facilitator cannot settle any of the ${quoted.length} payment option(s) for task ${task.id}`
+      );
+      this.utils.recordPaymentFailure(task, x402ErrorCode.UNSUPPORTED_PAYMENT_KIND, {
+        success: false,
+        network: quoted[0]?.network || "unknown",
+        errorReason: "No payment option can be settled by the facilitator",
+      });
+      task.status.state = TaskState.FAILED;
+      await eventQueue.enqueueEvent(task);
+      return;
+    }
+
     // Store payment requirements for later correlation
-    x402ServerExecutor._paymentRequirementsStore.set(task.id, acceptsArray);
+    await this.requirementsStore.set(task.id, acceptsArray);
 
     const paymentRequired: x402PaymentRequiredResponse = {
       x402Version: 1,
@@ -331,8 +718,7 @@ export abstract class x402ServerExecutor extends x402BaseExecutor {
     errorReason: string,
     eventQueue: EventQueue
   ): Promise<void> {
-    const lastRequirements =
-      x402ServerExecutor._paymentRequirementsStore.get(task.id)?.[0];
+    const lastRequirements = (await this.requirementsStore.get(task.id))?.[0];
     const failureResponse: SettleResponse = {
       success: false,
       network: lastRequirements?.network || "unknown",
@@ -340,7 +726,7 @@ export abstract class x402ServerExecutor extends x402BaseExecutor {
     };
 
     this.utils.recordPaymentFailure(task, errorCode, failureResponse);
-    x402ServerExecutor._paymentRequirementsStore.delete(task.id);
+    await this.requirementsStore.delete(task.id);
     await eventQueue.enqueueEvent(task);
   }
 }
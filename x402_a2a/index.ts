@@ -18,7 +18,6 @@
 // ===== Core x402 Protocol Types (from types) =====
 export type {
   // State types
-  PaymentStatus,
   SupportedNetworks,
   EIP712Domain,
   EIP3009Authorization,
@@ -28,41 +27,140 @@ export type {
   x402PaymentRequiredResponse,
   VerifyResponse,
   SettleResponse,
+  SettlementConfirmation,
+  SupportedPaymentKind,
+  SupportedResponse,
   // Config types
   TokenAmount,
   Price,
+  AtomicAmount,
   x402ExtensionConfig,
   x402ServerConfig,
+  AssetConfig,
+  NetworkConfig,
+  SpendingLimit,
+  SpendingPolicyConfig,
   // A2A types
   TextPart,
+  FileWithBytes,
+  FileWithUri,
+  FilePart,
+  DataPart,
+  Part,
   Message,
+  Artifact,
   TaskStatus,
   Task,
   RequestContext,
   EventQueue,
   AgentExecutor,
+  JsonRpcRequest,
+  JsonRpcResponse,
   FacilitatorConfig,
   FacilitatorClient,
+  FacilitatorHealth,
+  PaymentRequirementsStore,
+  NonceKey,
+  NonceLedger,
+  ConfirmationTracker,
+  PaymentSigner,
+  PaymentSelectionContext,
+  PaymentRequirementSelector,
+  SpendRecord,
+  SpendHistory,
+  TaskStore,
 } from "./types";
 
-export { x402Metadata, TaskState } from "./types/state";
+export {
+  x402Metadata,
+  PaymentStatus,
+  TaskState,
+  CircuitState,
+  ConfirmationStatus,
+} from "./types/state";
 
 // ===== Extension Constants =====
-export { X402_EXTENSION_URI, DEFAULT_X402_EXTENSION_CONFIG } from "./types/config";
+export {
+  X402_EXTENSION_URI,
+  A2A_EXTENSIONS_HEADER,
+  DEFAULT_X402_EXTENSION_CONFIG,
+  SettlementMode,
+} from "./types/config";
 export { X402_EXTENSION } from "./extension";
 
 // ===== Core Functions =====
 export {
+  // Network registry
+  NetworkRegistry,
+  networkRegistry,
+  registerNetwork,
+  registerAsset,
+  DEFAULT_NETWORKS,
+  // Money arithmetic
+  parseMoney,
+  toAtomicAmount,
+  formatAtomicAmount,
+  scaleAtomicAmount,
   // Merchant functions
   createPaymentRequirements,
   // Wallet functions
   processPayment,
   processPaymentRequired,
+  selectPaymentRequirement,
+  // Payment signers
+  WalletSigner,
+  EthersSigner,
+  KeystoreSigner,
+  RemoteSigner,
+  createSigningServiceHandler,
+  // Payment requirement selectors
+  FirstOptionSelector,
+  CheapestSelector,
+  PreferredNetworkSelector,
+  PreferredAssetSelector,
+  BalanceSelector,
+  CompositeSelector,
+  createErc20BalanceLookup,
   // Protocol functions
   verifyPayment,
   settlePayment,
   // Facilitator
   DefaultFacilitatorClient,
+  LocalFacilitatorClient,
+  EvmFacilitatorClient,
+  EIP3009_ABI,
+  CircuitBreaker,
+  RoutingFacilitatorClient,
+  isSupportedRequirement,
+  filterSupportedRequirements,
+  // Payment requirements stores and nonce ledgers
+  InMemoryPaymentRequirementsStore,
+  FilePaymentRequirementsStore,
+  InMemoryNonceLedger,
+  FileNonceLedger,
+  getNonceLedgerKey,
+  // Spending policy
+  SpendingPolicy,
+  InMemorySpendHistory,
+  FileSpendHistory,
+  // Task stores
+  InMemoryTaskStore,
+  FileTaskStore,
+  // Event queues
+  BufferedEventQueue,
+  // Settlement confirmations
+  RpcConfirmationTracker,
+  LocalConfirmationTracker,
+  // Payload validation
+  validatePaymentPayload,
+  checkPaymentPayloadStructure,
+  // Metadata schemas
+  PaymentRequirementsSchema,
+  x402PaymentRequiredResponseSchema,
+  PaymentPayloadSchema,
+  SettleResponseSchema,
+  checkSchema,
+  parseWithSchema,
   // State management
   x402Utils,
   createPaymentSubmissionMessage,
@@ -76,12 +174,44 @@ export {
   checkPaymentContext,
   // Agent utilities
   getExtensionDeclaration,
+  getRequestedExtensions,
   checkExtensionActivation,
   addExtensionActivationHeader,
   createX402AgentCard,
+  // A2A JSON-RPC server
+  createA2AHandler,
 } from "./core";
 
 export type { ExtensionDeclaration } from "./core/agent";
+export type { A2AHandlerOptions } from "./core/a2aServer";
+export type { LocalFacilitatorOptions } from "./core/facilitator";
+export type { EvmFacilitatorOptions } from "./core/evm";
+export type { CircuitBreakerOptions } from "./core/circuitBreaker";
+export type { FacilitatorRoute, RoutingFacilitatorOptions } from "./core/routing";
+export type { RpcConfirmationTrackerOptions, ReceiptProvider } from "./core/confirmations";
+export type {
+  SpendingDecision,
+  SpendingPolicyOptions,
+} from "./core/policy";
+export type {
+  ProcessPaymentOptions,
+  SelectPaymentRequirementOptions,
+} from "./core/wallet";
+export type {
+  RemoteSignerOptions,
+  SigningServiceOptions,
+} from "./core/signer";
+export type {
+  CheapestSelectorOptions,
+  BalanceLookup,
+} from "./core/selector";
+export type { ParsedMoney } from "./core/money";
+export type { Schema, SchemaIssue } from "./core/schemas";
+export type { x402UtilsOptions } from "./core/utils";
+export type {
+  PaymentValidationOptions,
+  PaymentValidationResult,
+} from "./core/validation";
 
 // ===== Error Types =====
 export {
@@ -89,13 +219,22 @@ export {
   MessageError,
   ValidationError,
   PaymentError,
+  SpendingPolicyError,
+  FacilitatorUnavailableError,
+  FacilitatorRequestError,
+  JsonRpcError,
+  JsonRpcErrorCode,
+  ExtensionNotActivatedError,
   StateError,
   x402PaymentRequiredException,
   x402ErrorCode,
   mapErrorToCode,
 } from "./types/errors";
 
-export type { PaymentRequiredExceptionOptions } from "./types/errors";
+export type {
+  PaymentRequiredExceptionOptions,
+  FacilitatorFailureReason,
+} from "./types/errors";
 
 // ===== Optional Middleware =====
 export {
@@ -104,5 +243,10 @@ export {
   x402ClientExecutor,
 } from "./executors";
 
+export type {
+  x402ServerExecutorOptions,
+  x402ClientExecutorOptions,
+} from "./executors";
+
 // ===== Version =====
 export const VERSION = "1.0.0";
@@ -0,0 +1,421 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import { mkdtempSync } from "node:fs";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { A2AHandlerOptions, createA2AHandler } from "../core/a2aServer";
+import { createX402AgentCard } from "../core/agent";
+import { FileTaskStore } from "../core/store";
+import { x402ServerExecutor } from "../executors/server";
+import { X402_EXTENSION_URI } from "../types/config";
+import { JsonRpcErrorCode } from "../types/errors";
+import {
+  AgentExecutor,
+  EventQueue,
+  Message,
+  PaymentStatus,
+  RequestContext,
+  SettleResponse,
+  TaskState,
+  VerifyResponse,
+  x402Metadata,
+} from "../types/state";
+
+const ACTIVATED = { "X-A2A-Extensions": X402_EXTENSION_URI };
+
+/**
+ * Completes with an echo of the text it receives. "ask" asks for more input,
+ * and "wait" keeps the task working until release is called.
+ */
+class ScriptedAgent implements AgentExecutor {
+  release!: () => void;
+  private released = new Promise<void>((resolve) => (this.release = resolve));
+
+  async execute(context: RequestContext, eventQueue: EventQueue): Promise<void> {
+    const part = context.message.parts[0];
+    const text = part.kind === "text" ? part.text : "";
+    const reply = (state: TaskState, reply: string) =>
+      eventQueue.enqueueEvent({
+        id: context.taskId,
+        contextId: context.contextId,
+        kind: "task",
+        status: {
+          state,
+          message: {
+            messageId: randomUUID(),
+            role: "agent",
+            parts: [{ kind: "text", text: reply }],
+          },
+        },
+      });
+
+    if (text === "wait") {
+      await reply(TaskState.WORKING, "working");
+      await this.released;
+    }
+    if (text === "ask") {
+      await reply(TaskState.INPUT_REQUIRED, "Which one?");
+      return;
+    }
+    await reply(TaskState.COMPLETED, `echo: ${text}`);
+  }
+}
+
+/**
+ * A merchant that refuses clients which did not activate x402
+ */
+class RequiredExtensionExecutor extends x402ServerExecutor {
+  constructor() {
+    super(new ScriptedAgent(), { required: true });
+  }
+
+  async verifyPayment(): Promise<VerifyResponse> {
+    throw new Error("not expected");
+  }
+
+  async settlePayment(): Promise<SettleResponse> {
+    throw new Error("not expected");
+  }
+}
+
+const servers: Server[] = [];
+
+after(async () => {
+  for (const server of servers) {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
+
+/**
+ * Serves the executor on an ephemeral localhost port and returns its URL
+ */
+async function serve(
+  executor: AgentExecutor,
+  options: Partial<A2AHandlerOptions> = {}
+): Promise<string> {
+  const server = createServer(
+    createA2AHandler(executor, {
+      agentCard: createX402AgentCard("Test agent", "Echoes", "http://localhost"),
+      streaming: true,
+      ...options,
+    })
+  );
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+}
+
+function post(
+  url: string,
+  method: string,
+  params: unknown,
+  headers: Record<string, string> = ACTIVATED
+): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 7, method, params }),
+  });
+}
+
+async function call(
+  url: string,
+  method: string,
+  params: unknown,
+  headers?: Record<string, string>
+): Promise<any> {
+  return (await post(url, method, params, headers)).json();
+}
+
+function message(text: string, fields: Partial<Message> = {}): Message {
+  return { messageId: randomUUID(), role: "user", parts: [{ kind: "text", text }], ...fields };
+}
+
+/**
+ * Reads a server-sent event stream, one JSON-RPC response per event
+ */
+class EventStream {
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private decoder = new TextDecoder();
+  private buffer = "";
+
+  constructor(response: Response) {
+    assert.equal(response.headers.get("content-type"), "text/event-stream");
+    this.reader = response.body!.getReader();
+  }
+
+  /**
+   * The next event, or undefined once the server ended the stream
+   */
+  async next(): Promise<any> {
+    for (;;) {
+      const end = this.buffer.indexOf("\n\n");
+      if (end >= 0) {
+        const frame = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + 2);
+        assert.match(frame, /^data: /);
+        return JSON.parse(frame.slice("data: ".length));
+      }
+      const { done, value } = await this.reader.read();
+      if (done) {
+        return undefined;
+      }
+      this.buffer += this.decoder.decode(value, { stream: true });
+    }
+  }
+
+  /**
+   * The results of every remaining event, until the stream ends
+   */
+  async rest(): Promise<any[]> {
+    const results = [];
+    for (let event = await this.next(); event; event = await this.next()) {
+      assert.equal(event.id, 7);
+      results.push(event.result);
+    }
+    return results;
+  }
+}
+
+async function stream(url: string, method: string, params: unknown): Promise<EventStream> {
+  return new EventStream(await post(url, method, params));
+}
+
+const states = (events: any[]) =>
+  events.map((event) => `${event.kind}:${event.status.state}${event.final ? ":final" : ""}`);
+
+const texts = (messages: any[]) => messages.map((entry) => entry.parts[0].text);
+
+describe("createA2AHandler message/send", () => {
+  it("runs the executor and answers with the finished task", async () => {
+    const url = await serve(new ScriptedAgent());
+    const response = await post(url, "message/send", { message: message("hello") });
+    assert.equal(response.headers.get("x-a2a-extensions"), X402_EXTENSION_URI);
+
+    const body: any = await response.json();
+    assert.equal(body.jsonrpc, "2.0");
+    assert.equal(body.id, 7);
+    assert.equal(body.result.kind, "task");
+    assert.equal(body.result.status.state, TaskState.COMPLETED);
+    assert.equal(body.result.status.message.kind, "message");
+    assert.deepEqual(texts(body.result.history), ["hello", "echo: hello"]);
+    assert.ok(body.result.history.every((entry: any) => entry.kind === "message"));
+  });
+
+  it("continues an input-required task and refuses a finished one", async () => {
+    const url = await serve(new ScriptedAgent());
+    const first = await call(url, "message/send", { message: message("ask") });
+    assert.equal(first.result.status.state, TaskState.INPUT_REQUIRED);
+
+    const taskId = first.result.id;
+    const second = await call(url, "message/send", { message: message("two", { taskId }) });
+    assert.equal(second.result.id, taskId);
+    assert.equal(second.result.status.state, TaskState.COMPLETED);
+
+    const third = await call(url, "message/send", { message: message("three", { taskId }) });
+    assert.equal(third.error.code, JsonRpcErrorCode.INVALID_PARAMS);
+    assert.match(third.error.message, /accepts no more messages/);
+  });
+
+  it("rejects malformed requests with their JSON-RPC error codes", async () => {
+    const url = await serve(new ScriptedAgent());
+    const parse: any = await (await fetch(url, { method: "POST", body: "{" })).json();
+    assert.equal(parse.error.code, JsonRpcErrorCode.PARSE_ERROR);
+
+    const noMessage = await call(url, "message/send", {});
+    assert.equal(noMessage.error.code, JsonRpcErrorCode.INVALID_PARAMS);
+
+    const unknown = await call(url, "tasks/list", {});
+    assert.equal(unknown.error.code, JsonRpcErrorCode.METHOD_NOT_FOUND);
+  });
+});
+
+describe("createA2AHandler tasks/get", () => {
+  it("returns the task with at most historyLength of its latest messages", async () => {
+    const url = await serve(new ScriptedAgent());
+    const { result: task } = await call(url, "message/send", { message: message("ask") });
+    await call(url, "message/send", { message: message("two", { taskId: task.id }) });
+
+    const full = await call(url, "tasks/get", { id: task.id });
+    assert.equal(full.result.status.state, TaskState.COMPLETED);
+    assert.deepEqual(texts(full.result.history), ["ask", "Which one?", "two", "echo: two"]);
+
+    const latest = await call(url, "tasks/get", { id: task.id, historyLength: 1 });
+    assert.deepEqual(texts(latest.result.history), ["echo: two"]);
+
+    const none = await call(url, "tasks/get", { id: task.id, historyLength: 0 });
+    assert.deepEqual(none.result.history, []);
+
+    const negative = await call(url, "tasks/get", { id: task.id, historyLength: -1 });
+    assert.equal(negative.error.code, JsonRpcErrorCode.INVALID_PARAMS);
+  });
+
+  it("answers TASK_NOT_FOUND for an unknown task", async () => {
+    const url = await serve(new ScriptedAgent());
+    const response = await call(url, "tasks/get", { id: "missing" });
+    assert.equal(response.error.code, JsonRpcErrorCode.TASK_NOT_FOUND);
+  });
+});
+
+describe("createA2AHandler message/stream", () => {
+  it("sends the task, a status-update per event and a final status-update", async () => {
+    const url = await serve(new ScriptedAgent());
+    const events = await (await stream(url, "message/stream", { message: message("hello") })).rest();
+    assert.deepEqual(states(events), [
+      "task:submitted",
+      "status-update:completed",
+      "status-update:completed:final",
+    ]);
+    assert.equal(events[1].taskId, events[0].id);
+    assert.equal(events[1].contextId, events[0].contextId);
+    assert.equal(events[1].status.message.parts[0].text, "echo: hello");
+  });
+
+  it("is refused when streaming is off", async () => {
+    const url = await serve(new ScriptedAgent(), { streaming: false });
+    const response = await call(url, "message/stream", { message: message("hello") });
+    assert.equal(response.error.code, JsonRpcErrorCode.UNSUPPORTED_OPERATION);
+  });
+});
+
+describe("createA2AHandler tasks/cancel", () => {
+  it("refuses to cancel a task while it processes a payment", async () => {
+    const agent = new ScriptedAgent();
+    const url = await serve(agent);
+    const payment = message("wait", {
+      metadata: { [x402Metadata.STATUS_KEY]: PaymentStatus.PAYMENT_SUBMITTED },
+    });
+    const events = await stream(url, "message/stream", { message: payment });
+    const { result: task } = await events.next();
+    assert.equal((await events.next()).result.status.state, TaskState.WORKING);
+
+    const refused = await call(url, "tasks/cancel", { id: task.id });
+    assert.equal(refused.error.code, JsonRpcErrorCode.TASK_NOT_CANCELABLE);
+    assert.match(refused.error.message, /processing a payment/);
+
+    agent.release();
+    assert.deepEqual(states(await events.rest()), [
+      "status-update:completed",
+      "status-update:completed:final",
+    ]);
+    const finished = await call(url, "tasks/cancel", { id: task.id });
+    assert.equal(finished.error.code, JsonRpcErrorCode.TASK_NOT_CANCELABLE);
+  });
+
+  it("cancels a running task that is not paying and ignores its later events", async () => {
+    const agent = new ScriptedAgent();
+    const url = await serve(agent);
+    const events = await stream(url, "message/stream", { message: message("wait") });
+    const { result: task } = await events.next();
+    await events.next();
+
+    const canceled = await call(url, "tasks/cancel", { id: task.id });
+    assert.equal(canceled.result.status.state, TaskState.CANCELED);
+    assert.deepEqual(states(await events.rest()), ["status-update:canceled:final"]);
+
+    agent.release();
+    const stored = await call(url, "tasks/get", { id: task.id });
+    assert.equal(stored.result.status.state, TaskState.CANCELED);
+  });
+});
+
+describe("createA2AHandler tasks/resubscribe", () => {
+  it("sends a finished task and its final status-update at once", async () => {
+    const url = await serve(new ScriptedAgent());
+    const { result: task } = await call(url, "message/send", { message: message("hello") });
+    const events = await (await stream(url, "tasks/resubscribe", { id: task.id })).rest();
+    assert.deepEqual(states(events), ["task:completed", "status-update:completed:final"]);
+  });
+
+  it("joins a running task's stream until it finishes", async () => {
+    const agent = new ScriptedAgent();
+    const url = await serve(agent);
+    const original = await stream(url, "message/stream", { message: message("wait") });
+    const { result: task } = await original.next();
+    await original.next();
+
+    const joined = await stream(url, "tasks/resubscribe", { id: task.id });
+    assert.deepEqual(states([(await joined.next()).result]), ["task:working"]);
+
+    agent.release();
+    const expected = ["status-update:completed", "status-update:completed:final"];
+    assert.deepEqual(states(await joined.rest()), expected);
+    assert.deepEqual(states(await original.rest()), expected);
+  });
+});
+
+describe("createA2AHandler extension activation", () => {
+  it("answers -32600 and fails the task when a required extension is missing", async () => {
+    const url = await serve(new RequiredExtensionExecutor());
+    const response = await post(url, "message/send", { message: message("hello") }, {});
+    assert.equal(response.headers.get("x-a2a-extensions"), null);
+
+    const body: any = await response.json();
+    assert.equal(body.error.code, JsonRpcErrorCode.INVALID_REQUEST);
+    assert.equal(body.error.data.extension, X402_EXTENSION_URI);
+
+    const task = await call(url, "tasks/get", { id: body.error.data.taskId });
+    assert.equal(task.result.status.state, TaskState.FAILED);
+  });
+
+  it("serves a card declaring the extension required only when asked to", async () => {
+    const declared = async (card: Record<string, any>) => {
+      const url = await serve(new ScriptedAgent(), { agentCard: card });
+      const served: any = await (await fetch(url + ".well-known/agent.json")).json();
+      return served.capabilities.extensions[0];
+    };
+    const required = await declared(createX402AgentCard("Agent", "", "http://localhost"));
+    assert.deepEqual([required.uri, required.required], [X402_EXTENSION_URI, true]);
+    const optional = await declared(
+      createX402AgentCard("Agent", "", "http://localhost", "1.0.0", [], false, false)
+    );
+    assert.equal(optional.required, false);
+  });
+
+  it("serves a client that activated the required extension", async () => {
+    const url = await serve(new RequiredExtensionExecutor());
+    const response = await call(url, "message/send", { message: message("hello") });
+    assert.equal(response.result.status.state, TaskState.COMPLETED);
+  });
+});
+
+describe("createA2AHandler with a FileTaskStore", () => {
+  it("continues tasks stored before a restart", async () => {
+    const file = join(mkdtempSync(join(tmpdir(), "x402-tasks-")), "tasks.json");
+    const before = await serve(new ScriptedAgent(), { taskStore: new FileTaskStore(file) });
+    const { result: task } = await call(before, "message/send", { message: message("ask") });
+
+    const restarted = await serve(new ScriptedAgent(), { taskStore: new FileTaskStore(file) });
+    const loaded = await call(restarted, "tasks/get", { id: task.id });
+    assert.equal(loaded.result.status.state, TaskState.INPUT_REQUIRED);
+    assert.deepEqual(texts(loaded.result.history), ["ask", "Which one?"]);
+
+    const response = await call(restarted, "message/send", {
+      message: message("two", { taskId: task.id }),
+    });
+    assert.equal(response.result.status.state, TaskState.COMPLETED);
+    assert.deepEqual(texts(response.result.history), [
+      "ask",
+      "Which one?",
+      "two",
+      "echo: two",
+    ]);
+  });
+});
@@ -0,0 +1,213 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { BufferedEventQueue } from "../core/queue";
+import { createPaymentRequirements } from "../core/merchant";
+import { InMemoryNonceLedger, InMemoryPaymentRequirementsStore } from "../core/store";
+import { createPaymentSubmissionMessage, x402Utils } from "../core/utils";
+import { processPayment } from "../core/wallet";
+import { x402ServerExecutor, x402ServerExecutorOptions } from "../executors/server";
+import {
+  AgentExecutor,
+  EventQueue,
+  PaymentPayload,
+  PaymentRequirements,
+  PaymentStatus,
+  RequestContext,
+  SettleResponse,
+  Task,
+  TaskState,
+  VerifyResponse,
+} from "../types/state";
+import { SettlementMode } from "../types/config";
+
+const DELIVERED = "Here is your content";
+
+class RecordingQueue implements EventQueue {
+  log: string[] = [];
+
+  async enqueueEvent(event: Task): Promise<void> {
+    const text = event.status.message?.parts.find((part) => part.kind === "text");
+    this.log.push(
+      text && text.kind === "text" && text.text === DELIVERED
+        ? "delivered"
+        : `task:${event.status.state}`
+    );
+  }
+}
+
+class DeliveringAgent implements AgentExecutor {
+  async execute(context: RequestContext, eventQueue: EventQueue): Promise<void> {
+    await eventQueue.enqueueEvent({
+      id: context.taskId,
+      contextId: context.contextId || "ctx",
+      kind: "task",
+      status: {
+        state: TaskState.COMPLETED,
+        message: {
+          messageId: "delivery",
+          role: "agent",
+          parts: [{ kind: "text", text: DELIVERED }],
+        },
+      },
+    });
+  }
+}
+
+class StubExecutor extends x402ServerExecutor {
+  constructor(
+    private settleResult: SettleResponse,
+    private queue: RecordingQueue,
+    options: x402ServerExecutorOptions
+  ) {
+    super(new DeliveringAgent(), {}, options);
+  }
+
+  async verifyPayment(payload: PaymentPayload): Promise<VerifyResponse> {
+    return { isValid: true, payer: payload.payload.authorization.from };
+  }
+
+  async settlePayment(): Promise<SettleResponse> {
+    this.queue.log.push("settled");
+    return this.settleResult;
+  }
+}
+
+async function runPaidRequest(
+  settleResult: SettleResponse,
+  options: x402ServerExecutorOptions
+): Promise<{ log: string[]; task: Task }> {
+  const requirements: PaymentRequirements = await createPaymentRequirements({
+    price: "$0.01",
+    payToAddress: Wallet.createRandom().address,
+    resource: "/content",
+    network: "base-sepolia",
+  });
+  const payload = await processPayment(requirements, Wallet.createRandom());
+
+  const requirementsStore = new InMemoryPaymentRequirementsStore();
+  const task: Task = {
+    id: "task-1",
+    contextId: "ctx",
+    kind: "task",
+    status: { state: TaskState.INPUT_REQUIRED },
+  };
+  await requirementsStore.set(task.id, [requirements]);
+
+  const queue = new RecordingQueue();
+  const executor = new StubExecutor(settleResult, queue, {
+    requirementsStore,
+    nonceLedger: new InMemoryNonceLedger(),
+    ...options,
+  });
+  await executor.execute(
+    {
+      taskId: task.id,
+      contextId: task.contextId,
+      currentTask: task,
+      message: createPaymentSubmissionMessage(task.id, payload),
+    },
+    queue
+  );
+  return { log: queue.log, task };
+}
+
+const success: SettleResponse = {
+  success: true,
+  transaction: "0x" + "ab".repeat(32),
+  network: "base-sepolia",
+};
+const failure: SettleResponse = {
+  success: false,
+  network: "base-sepolia",
+  errorReason: "insufficient_funds",
+};
+
+describe("BufferedEventQueue", () => {
+  it("holds events until flushed, then releases them in order", async () => {
+    const target = new RecordingQueue();
+    const buffer = new BufferedEventQueue(target);
+    const event = (state: TaskState): Task => ({
+      id: "t",
+      contextId: "c",
+      kind: "task",
+      status: { state },
+    });
+    await buffer.enqueueEvent(event(TaskState.WORKING));
+    await buffer.enqueueEvent(event(TaskState.COMPLETED));
+    assert.equal(buffer.size, 2);
+    assert.deepEqual(target.log, []);
+
+    await buffer.flush();
+    assert.deepEqual(target.log, ["task:working", "task:completed"]);
+    assert.equal(buffer.size, 0);
+  });
+
+  it("drops held events on discard", async () => {
+    const target = new RecordingQueue();
+    const buffer = new BufferedEventQueue(target);
+    await buffer.enqueueEvent({
+      id: "t",
+      contextId: "c",
+      kind: "task",
+      status: { state: TaskState.WORKING },
+    });
+    assert.equal(buffer.discard(), 1);
+    await buffer.flush();
+    assert.deepEqual(target.log, []);
+  });
+});
+
+for (const settlementMode of [
+  SettlementMode.DELIVER_THEN_SETTLE,
+  SettlementMode.SETTLE_ASYNC,
+]) {
+  describe(`bufferDelegateEvents in ${settlementMode}`, () => {
+    it("releases the delegate's events only after settlement succeeds", async () => {
+      const { log, task } = await runPaidRequest(success, {
+        settlementMode,
+        bufferDelegateEvents: true,
+      });
+      assert.ok(log.includes("delivered"));
+      assert.ok(log.indexOf("settled") < log.indexOf("delivered"));
+      assert.equal(
+        new x402Utils().getPaymentStatusFromTask(task),
+        PaymentStatus.PAYMENT_COMPLETED
+      );
+    });
+
+    it("drops the delegate's events when settlement fails", async () => {
+      const { log, task } = await runPaidRequest(failure, {
+        settlementMode,
+        bufferDelegateEvents: true,
+      });
+      assert.ok(!log.includes("delivered"));
+      assert.equal(
+        new x402Utils().getPaymentStatusFromTask(task),
+        PaymentStatus.PAYMENT_FAILED
+      );
+    });
+  });
+}
+
+describe("without bufferDelegateEvents", () => {
+  it("passes the delegate's events through before settlement", async () => {
+    const { log } = await runPaidRequest(failure, {
+      settlementMode: SettlementMode.DELIVER_THEN_SETTLE,
+    });
+    assert.ok(log.indexOf("delivered") < log.indexOf("settled"));
+  });
+});
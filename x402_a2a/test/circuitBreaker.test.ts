@@ -0,0 +1,92 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CircuitBreaker } from "../core/circuitBreaker";
+import { CircuitState } from "../types/state";
+
+/**
+ * A breaker opening after two failures for one second, on a clock the test moves by hand
+ */
+function createBreaker() {
+  const clock = { now: 1_700_000_000_000 };
+  const breaker = new CircuitBreaker({
+    failureThreshold: 2,
+    resetTimeoutMs: 1000,
+    now: () => clock.now,
+  });
+  return { breaker, clock };
+}
+
+function fail(breaker: CircuitBreaker): void {
+  assert.equal(breaker.tryAcquire(), true);
+  breaker.recordFailure("boom");
+}
+
+describe("CircuitBreaker", () => {
+  it("stays closed until failures in a row reach the threshold", () => {
+    const { breaker } = createBreaker();
+    fail(breaker);
+    breaker.recordSuccess();
+    fail(breaker);
+    assert.equal(breaker.getHealth().state, CircuitState.CLOSED);
+    assert.equal(breaker.getHealth().consecutiveFailures, 1);
+
+    fail(breaker);
+    assert.deepEqual(breaker.getHealth(), {
+      state: CircuitState.OPEN,
+      consecutiveFailures: 2,
+      openedAt: 1_700_000_000_000,
+      lastError: "boom",
+    });
+  });
+
+  it("moves from open to half-open to closed", () => {
+    const { breaker, clock } = createBreaker();
+    fail(breaker);
+    fail(breaker);
+    assert.equal(breaker.tryAcquire(), false);
+
+    clock.now += 999;
+    assert.equal(breaker.tryAcquire(), false);
+    assert.equal(breaker.getHealth().state, CircuitState.OPEN);
+
+    clock.now += 1;
+    assert.equal(breaker.tryAcquire(), true);
+    assert.equal(breaker.getHealth().state, CircuitState.HALF_OPEN);
+    // Only one trial call at a time
+    assert.equal(breaker.tryAcquire(), false);
+
+    breaker.recordSuccess();
+    assert.equal(breaker.getHealth().state, CircuitState.CLOSED);
+    assert.equal(breaker.getHealth().consecutiveFailures, 0);
+    assert.equal(breaker.tryAcquire(), true);
+    assert.equal(breaker.tryAcquire(), true);
+  });
+
+  it("opens again for another reset timeout when the trial fails", () => {
+    const { breaker, clock } = createBreaker();
+    fail(breaker);
+    fail(breaker);
+
+    clock.now += 1000;
+    fail(breaker);
+    assert.equal(breaker.getHealth().state, CircuitState.OPEN);
+    assert.equal(breaker.getHealth().openedAt, clock.now);
+    assert.equal(breaker.tryAcquire(), false);
+
+    clock.now += 1000;
+    assert.equal(breaker.tryAcquire(), true);
+  });
+});
@@ -0,0 +1,162 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ReceiptProvider,
+  RpcConfirmationTracker,
+  RpcConfirmationTrackerOptions,
+} from "../core/confirmations";
+import {
+  ConfirmationStatus,
+  SettleResponse,
+  SettlementConfirmation,
+} from "../types/state";
+
+type Receipt = Awaited<ReturnType<ReceiptProvider["getTransactionReceipt"]>>;
+
+const settled: SettleResponse = {
+  success: true,
+  transaction: "0x" + "ab".repeat(32),
+  network: "base-sepolia",
+};
+
+/**
+ * A chain answering each poll with the next scripted receipt, or error, and
+ * head block; the last entry repeats
+ */
+class ScriptedChain implements ReceiptProvider {
+  polls = 0;
+
+  constructor(private script: Array<[Receipt | Error, number]>) {}
+
+  private current(): [Receipt | Error, number] {
+    return this.script[Math.min(this.polls, this.script.length - 1)];
+  }
+
+  async getTransactionReceipt(): Promise<Receipt> {
+    const [receipt] = this.current();
+    this.polls++;
+    if (receipt instanceof Error) {
+      throw receipt;
+    }
+    return receipt;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.script[Math.min(this.polls - 1, this.script.length - 1)][1];
+  }
+}
+
+const mined = (blockNumber: number, status: number = 1): Receipt => ({
+  blockNumber,
+  blockHash: `0xblock${blockNumber}`,
+  status,
+});
+
+async function track(
+  chain: ScriptedChain,
+  options: RpcConfirmationTrackerOptions = {}
+): Promise<{ result: SettlementConfirmation; updates: string[] }> {
+  const tracker = new RpcConfirmationTracker({
+    providers: { "base-sepolia": chain },
+    pollIntervalMs: 1,
+    timeoutMs: 200,
+    ...options,
+  });
+  const updates: string[] = [];
+  const result = await tracker.track(settled, (confirmation) => {
+    updates.push(`${confirmation.status}:${confirmation.confirmations}`);
+  });
+  return { result, updates };
+}
+
+describe("RpcConfirmationTracker", () => {
+  it("reports each new confirmation until the transaction is final", async () => {
+    const chain = new ScriptedChain([
+      [null, 99],
+      [null, 99],
+      [mined(100), 100],
+      [mined(100), 101],
+      [mined(100), 102],
+    ]);
+    const { result, updates } = await track(chain, { confirmations: 3 });
+    assert.equal(result.status, ConfirmationStatus.CONFIRMED);
+    assert.equal(result.blockNumber, 100);
+    assert.equal(result.requiredConfirmations, 3);
+    assert.deepEqual(updates, ["pending:0", "pending:1", "pending:2", "confirmed:3"]);
+  });
+
+  it("reports a reverted transaction at once", async () => {
+    const { result, updates } = await track(new ScriptedChain([[mined(100, 0), 100]]), {
+      confirmations: 3,
+    });
+    assert.equal(result.status, ConfirmationStatus.REVERTED);
+    assert.deepEqual(updates, ["reverted:1"]);
+  });
+
+  it("reports a transaction that never confirms as unconfirmed after the timeout", async () => {
+    const chain = new ScriptedChain([[null, 100]]);
+    const started = Date.now();
+    const { result, updates } = await track(chain, { timeoutMs: 50 });
+    assert.ok(Date.now() - started >= 50);
+    assert.ok(chain.polls > 1);
+    assert.equal(result.status, ConfirmationStatus.UNCONFIRMED);
+    assert.equal(result.transaction, settled.transaction);
+    assert.deepEqual(updates, ["pending:0", "unconfirmed:0"]);
+  });
+
+  it("keeps the last block seen when the timeout passes before finality", async () => {
+    const { result, updates } = await track(new ScriptedChain([[mined(100), 100]]), {
+      confirmations: 5,
+      timeoutMs: 50,
+    });
+    assert.equal(result.status, ConfirmationStatus.UNCONFIRMED);
+    assert.equal(result.blockNumber, 100);
+    assert.deepEqual(updates, ["pending:1", "unconfirmed:1"]);
+  });
+
+  it("retries RPC errors until the timeout", async () => {
+    const chain = new ScriptedChain([
+      [new Error("rate limited"), 0],
+      [mined(100), 100],
+    ]);
+    const { result } = await track(chain);
+    assert.equal(result.status, ConfirmationStatus.CONFIRMED);
+
+    const down = new ScriptedChain([[new Error("connection refused"), 0]]);
+    assert.equal((await track(down, { timeoutMs: 50 })).result.status, ConfirmationStatus.UNCONFIRMED);
+  });
+
+  it("reports a receipt that disappears as reorged", async () => {
+    const chain = new ScriptedChain([
+      [mined(100), 100],
+      [null, 101],
+    ]);
+    const { result, updates } = await track(chain, { confirmations: 3 });
+    assert.equal(result.status, ConfirmationStatus.REORGED);
+    assert.deepEqual(updates, ["pending:1", "reorged:0"]);
+  });
+
+  it("reports a settlement without a transaction as unconfirmed", async () => {
+    const tracker = new RpcConfirmationTracker({ providers: {} });
+    const result = await tracker.track({ success: true, network: "base-sepolia" });
+    assert.equal(result.status, ConfirmationStatus.UNCONFIRMED);
+  });
+
+  it("refuses a network without a provider", async () => {
+    const tracker = new RpcConfirmationTracker({ providers: {} });
+    await assert.rejects(tracker.track(settled), /No RPC provider configured/);
+  });
+});
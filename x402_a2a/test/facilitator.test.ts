@@ -0,0 +1,309 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingHttpHeaders, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Wallet } from "ethers";
+import { DefaultFacilitatorClient, LocalFacilitatorClient } from "../core/facilitator";
+import {
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  getTransferWithAuthorizationDomain,
+} from "../core/wallet";
+import { FacilitatorRequestError, FacilitatorUnavailableError } from "../types/errors";
+import { CircuitState, PaymentPayload, PaymentRequirements } from "../types/state";
+
+const NOW = 1_700_000_000;
+
+const requirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  payTo: "0x0000000000000000000000000000000000000a11",
+  maxAmountRequired: "10000",
+  resource: "/content",
+  description: "",
+  mimeType: "application/json",
+  maxTimeoutSeconds: 600,
+};
+
+const wallet = Wallet.createRandom();
+
+/**
+ * A payload the wallet signed for requirements, with any authorization fields overridden
+ */
+async function sign(
+  overrides: Record<string, unknown> = {}
+): Promise<PaymentPayload> {
+  const authorization = {
+    from: wallet.address,
+    to: requirements.payTo,
+    value: requirements.maxAmountRequired,
+    validAfter: NOW - 60,
+    validBefore: NOW + 600,
+    nonce: "0x" + "11".repeat(32),
+    ...overrides,
+  };
+  const signature = await wallet.signTypedData(
+    getTransferWithAuthorizationDomain(requirements),
+    TRANSFER_WITH_AUTHORIZATION_TYPES,
+    authorization
+  );
+  return {
+    x402Version: 1,
+    scheme: "exact",
+    network: requirements.network,
+    payload: { signature, authorization },
+  };
+}
+
+const facilitator = new LocalFacilitatorClient({ now: () => NOW });
+
+async function invalidReason(
+  payload: PaymentPayload,
+  against: PaymentRequirements = requirements
+): Promise<string | undefined> {
+  const response = await facilitator.verify(payload, against);
+  assert.equal(response.isValid, false);
+  return response.invalidReason;
+}
+
+describe("LocalFacilitatorClient verify", () => {
+  it("accepts a payload signed by its payer", async () => {
+    assert.deepEqual(await facilitator.verify(await sign(), requirements), {
+      isValid: true,
+      payer: wallet.address,
+    });
+  });
+
+  it("rejects another scheme or network", async () => {
+    const payload = await sign();
+    assert.equal(
+      await invalidReason({ ...payload, scheme: "upto" }),
+      "unsupported_scheme"
+    );
+    assert.equal(
+      await invalidReason({ ...payload, network: "base" }),
+      "invalid_network"
+    );
+  });
+
+  it("rejects a payload without an authorization", async () => {
+    const payload = await sign();
+    assert.equal(
+      await invalidReason({ ...payload, payload: { signature: "0x" } as any }),
+      "invalid_exact_evm_payload"
+    );
+  });
+
+  it("rejects a payment to another address", async () => {
+    const payTo = "0x0000000000000000000000000000000000000c0c";
+    assert.equal(
+      await invalidReason(await sign(), { ...requirements, payTo }),
+      "invalid_exact_evm_payload_recipient_mismatch"
+    );
+  });
+
+  it("rejects a value below the required amount", async () => {
+    assert.equal(
+      await invalidReason(await sign({ value: "9999" })),
+      "invalid_exact_evm_payload_authorization_value"
+    );
+    assert.equal(
+      await invalidReason(await sign(), { ...requirements, maxAmountRequired: "10001" }),
+      "invalid_exact_evm_payload_authorization_value"
+    );
+  });
+
+  it("rejects an authorization outside its validity window", async () => {
+    assert.equal(
+      await invalidReason(await sign({ validBefore: NOW })),
+      "invalid_exact_evm_payload_authorization_valid_before"
+    );
+    assert.equal(
+      await invalidReason(await sign({ validAfter: NOW + 1 })),
+      "invalid_exact_evm_payload_authorization_valid_after"
+    );
+  });
+
+  it("rejects a signature by anyone but the payer", async () => {
+    const payload = await sign();
+    const forged = {
+      ...payload,
+      payload: {
+        ...payload.payload,
+        authorization: { ...payload.payload.authorization, from: Wallet.createRandom().address },
+      },
+    };
+    assert.equal(await invalidReason(forged), "invalid_exact_evm_payload_signature");
+
+    const garbled = { ...payload, payload: { ...payload.payload, signature: "0x1234" } };
+    assert.match((await invalidReason(garbled))!, /^invalid_exact_evm_payload_signature: /);
+  });
+});
+
+describe("LocalFacilitatorClient settle", () => {
+  it("reports a valid payload settled without a transaction", async () => {
+    assert.deepEqual(await facilitator.settle(await sign(), requirements), {
+      success: true,
+      network: requirements.network,
+      payer: wallet.address,
+    });
+  });
+
+  it("reports why an invalid payload was not settled", async () => {
+    const response = await facilitator.settle(await sign({ value: "1" }), requirements);
+    assert.equal(response.success, false);
+    assert.equal(response.errorReason, "invalid_exact_evm_payload_authorization_value");
+  });
+});
+
+interface Reply {
+  status: number;
+  body?: unknown;
+  delayMs?: number;
+}
+
+describe("DefaultFacilitatorClient", () => {
+  let server: Server;
+  let url: string;
+  // Replies to send, in order; the last one repeats
+  let replies: Reply[];
+  let received: Array<{ path: string; headers: IncomingHttpHeaders }>;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      received.push({ path: req.url!, headers: req.headers });
+      const reply = replies.length > 1 ? replies.shift()! : replies[0];
+      req.resume();
+      req.on("end", () =>
+        setTimeout(() => {
+          res.writeHead(reply.status, { "Content-Type": "application/json" });
+          res.end(JSON.stringify(reply.body ?? {}));
+        }, reply.delayMs ?? 0)
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    received = [];
+  });
+
+  const settled = { success: true, transaction: "0xabc", network: requirements.network };
+
+  const client = (config: Record<string, number> = {}) =>
+    new DefaultFacilitatorClient({ url, retryBackoffMs: 1, ...config });
+
+  async function rejectsUnavailable(
+    promise: Promise<unknown>,
+    reason: string
+  ): Promise<void> {
+    await assert.rejects(promise, (error: unknown) => {
+      assert.ok(error instanceof FacilitatorUnavailableError, String(error));
+      assert.equal(error.reason, reason);
+      return true;
+    });
+  }
+
+  it("retries a 5xx maxRetries times, then raises FacilitatorUnavailableError", async () => {
+    replies = [{ status: 503 }];
+    await rejectsUnavailable(
+      client({ maxRetries: 2 }).verify(await sign(), requirements),
+      "http"
+    );
+    assert.equal(received.length, 3);
+  });
+
+  it("returns the answer of a retry that succeeds", async () => {
+    replies = [{ status: 502 }, { status: 429 }, { status: 200, body: { isValid: true } }];
+    const response = await client().verify(await sign(), requirements);
+    assert.equal(response.isValid, true);
+    assert.equal(received.length, 3);
+  });
+
+  it("retries an attempt that times out", async () => {
+    replies = [{ status: 200, body: { isValid: true }, delayMs: 500 }];
+    await rejectsUnavailable(
+      client({ maxRetries: 1, timeoutMs: 50 }).verify(await sign(), requirements),
+      "timeout"
+    );
+    assert.equal(received.length, 2);
+  });
+
+  it("does not retry a 4xx", async () => {
+    replies = [{ status: 400, body: { error: "malformed payload" } }];
+    await assert.rejects(
+      client().verify(await sign(), requirements),
+      (error: unknown) => {
+        assert.ok(error instanceof FacilitatorRequestError);
+        assert.equal(error.status, 400);
+        assert.match(error.message, /malformed payload/);
+        return true;
+      }
+    );
+    assert.equal(received.length, 1);
+  });
+
+  it("returns a verdict carried by a 4xx as the answer", async () => {
+    replies = [{ status: 400, body: { isValid: false, invalidReason: "insufficient_funds" } }];
+    const response = await client().verify(await sign(), requirements);
+    assert.equal(response.invalidReason, "insufficient_funds");
+    assert.equal(received.length, 1);
+  });
+
+  it("retries settle with the same Idempotency-Key", async () => {
+    replies = [{ status: 503 }, { status: 200, body: settled }];
+    const response = await client().settle(await sign(), requirements);
+    assert.equal(response.transaction, "0xabc");
+    assert.equal(received.length, 2);
+    const keys = received.map((request) => request.headers["idempotency-key"]);
+    assert.ok(keys[0]);
+    assert.equal(keys[1], keys[0]);
+  });
+
+  it("shares one request between concurrent settles of the same authorization", async () => {
+    replies = [{ status: 200, body: settled, delayMs: 50 }];
+    const facilitator = client();
+    const payload = await sign();
+    const responses = await Promise.all([
+      facilitator.settle(payload, requirements),
+      facilitator.settle(structuredClone(payload), requirements),
+    ]);
+    assert.equal(received.length, 1);
+    assert.deepEqual(responses[0], responses[1]);
+
+    await facilitator.settle(payload, requirements);
+    assert.equal(received.length, 2);
+  });
+
+  it("fails fast once repeated failures open the circuit", async () => {
+    replies = [{ status: 500 }];
+    const facilitator = client({ maxRetries: 0, circuitBreakerThreshold: 2 });
+    const payload = await sign();
+    await rejectsUnavailable(facilitator.verify(payload, requirements), "http");
+    await rejectsUnavailable(facilitator.verify(payload, requirements), "http");
+    assert.equal(facilitator.getHealth().state, CircuitState.OPEN);
+
+    await rejectsUnavailable(facilitator.verify(payload, requirements), "circuit-open");
+    assert.equal(received.length, 2);
+  });
+});
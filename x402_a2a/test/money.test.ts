@@ -0,0 +1,105 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  formatAtomicAmount,
+  parseMoney,
+  scaleAtomicAmount,
+  toAtomicAmount,
+} from "../core/money";
+import { ValidationError } from "../types/errors";
+
+describe("parseMoney", () => {
+  it("parses prices without floating point rounding", () => {
+    assert.equal(parseMoney("0.29", 6).amount, 290000n);
+    assert.equal(parseMoney(0.29, 6).amount, 290000n);
+    assert.equal(parseMoney("$1,234.567891", 6).amount, 1234567891n);
+    assert.equal(parseMoney("10", 18).amount, 10n * 10n ** 18n);
+  });
+
+  it("accepts trailing zeros beyond the asset's decimals", () => {
+    assert.equal(parseMoney("1.500000000", 6).amount, 1500000n);
+  });
+
+  it("rejects more decimal places than the asset has", () => {
+    assert.throws(() => parseMoney("0.0000001", 6), ValidationError);
+    assert.throws(() => parseMoney("1.5", 0), ValidationError);
+  });
+
+  it("rejects numbers that only have an exponent form", () => {
+    assert.throws(() => parseMoney(1e-7, 6), /cannot be represented exactly/);
+    assert.throws(() => parseMoney(1e21, 6), /cannot be represented exactly/);
+  });
+
+  it("rejects exponent and other malformed strings", () => {
+    for (const input of ["1e3", "1E-2", "-1", "1.", ".5", "1,00", "NaN", ""]) {
+      assert.throws(() => parseMoney(input, 6), ValidationError, input);
+    }
+  });
+
+  it("rejects negative and non-finite numbers", () => {
+    assert.throws(() => parseMoney(-1, 6), ValidationError);
+    assert.throws(() => parseMoney(Infinity, 6), ValidationError);
+    assert.throws(() => parseMoney(NaN, 6), ValidationError);
+  });
+
+  it("checks the trailing symbol when one is expected", () => {
+    assert.deepEqual(parseMoney("1.5 usdc", 6, "USDC"), {
+      amount: 1500000n,
+      symbol: "usdc",
+    });
+    assert.throws(() => parseMoney("1.5 DAI", 6, "USDC"), /expected USDC/);
+  });
+});
+
+describe("toAtomicAmount", () => {
+  it("accepts whole, non-negative amounts", () => {
+    assert.equal(toAtomicAmount("10000"), 10000n);
+    assert.equal(toAtomicAmount(10000), 10000n);
+    assert.equal(toAtomicAmount(10n ** 30n), 10n ** 30n);
+  });
+
+  it("rejects fractional, negative, exponent and unsafe amounts", () => {
+    for (const value of ["1.5", "-1", "1e6", " 1", 1.5, -1, 2 ** 53, -1n]) {
+      assert.throws(() => toAtomicAmount(value), ValidationError, String(value));
+    }
+  });
+});
+
+describe("formatAtomicAmount", () => {
+  it("formats without trailing zeros", () => {
+    assert.equal(formatAtomicAmount(1500000n, 6), "1.5");
+    assert.equal(formatAtomicAmount(1n, 6), "0.000001");
+    assert.equal(formatAtomicAmount("2000000", 6), "2");
+    assert.equal(formatAtomicAmount(0, 6), "0");
+  });
+});
+
+describe("scaleAtomicAmount", () => {
+  it("multiplies by a decimal factor exactly", () => {
+    assert.equal(scaleAtomicAmount(1000000n, "1.5"), 1500000n);
+    assert.equal(scaleAtomicAmount(290000n, 3), 870000n);
+  });
+
+  it("rejects results that are not whole atomic units", () => {
+    assert.throws(() => scaleAtomicAmount(1n, "1.5"), /whole number/);
+  });
+
+  it("rejects exponent and negative factors", () => {
+    assert.throws(() => scaleAtomicAmount(1n, "1e2"), ValidationError);
+    assert.throws(() => scaleAtomicAmount(1n, "-2"), ValidationError);
+    assert.throws(() => scaleAtomicAmount(1n, 1e-7), ValidationError);
+  });
+});
@@ -0,0 +1,202 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SpendingPolicy } from "../core/policy";
+import { InMemorySpendHistory } from "../core/store";
+import { SpendingPolicyConfig } from "../types/config";
+import { SpendingPolicyError, x402ErrorCode } from "../types/errors";
+import { PaymentRequirements } from "../types/state";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+const MERCHANT = "0x0000000000000000000000000000000000000a11";
+
+function requirement(
+  amount: string,
+  overrides: Partial<PaymentRequirements> = {}
+): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network: "base-sepolia",
+    asset: USDC,
+    payTo: MERCHANT,
+    maxAmountRequired: amount,
+    resource: "/content",
+    description: "",
+    mimeType: "application/json",
+    maxTimeoutSeconds: 600,
+    ...overrides,
+  };
+}
+
+/**
+ * A policy on a clock the test moves by hand
+ */
+function createPolicy(
+  config: SpendingPolicyConfig,
+  options: { requestApproval?: () => Promise<boolean> } = {}
+) {
+  const clock = { now: 1_700_000_000_000 };
+  const policy = new SpendingPolicy(config, {
+    history: new InMemorySpendHistory(),
+    now: () => clock.now,
+    ...options,
+  });
+  return { policy, clock };
+}
+
+async function rejects(promise: Promise<unknown>, errorCode: string): Promise<void> {
+  await assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof SpendingPolicyError);
+    assert.equal(error.errorCode, errorCode);
+    return true;
+  });
+}
+
+describe("SpendingPolicy budgets", () => {
+  it("allows spending up to the daily budget exactly", async () => {
+    const { policy } = createPolicy({
+      limits: [{ asset: USDC, dailyBudget: "1000" }],
+    });
+    await policy.authorize(requirement("600"));
+    await policy.authorize(requirement("400"));
+    await rejects(
+      policy.authorize(requirement("1")),
+      x402ErrorCode.SPENDING_LIMIT_EXCEEDED
+    );
+  });
+
+  it("frees the daily budget once a spend is older than 24 hours", async () => {
+    const { policy, clock } = createPolicy({
+      limits: [{ asset: USDC, dailyBudget: "1000" }],
+    });
+    await policy.authorize(requirement("1000"));
+
+    clock.now += DAY_MS;
+    assert.equal((await policy.evaluate(requirement("1"))).allowed, false);
+
+    clock.now += 1;
+    assert.equal((await policy.evaluate(requirement("1000"))).allowed, true);
+  });
+
+  it("keeps counting a spend against the weekly budget for seven days", async () => {
+    const { policy, clock } = createPolicy({
+      limits: [{ asset: USDC, dailyBudget: "1000", weeklyBudget: "1500" }],
+    });
+    await policy.authorize(requirement("1000"));
+
+    clock.now += 2 * DAY_MS;
+    const decision = await policy.evaluate(requirement("600"));
+    assert.equal(decision.allowed, false);
+    assert.match(decision.reason!, /weekly budget/);
+
+    clock.now += 5 * DAY_MS + 1;
+    assert.equal((await policy.evaluate(requirement("1000"))).allowed, true);
+  });
+
+  it("only counts spends of the same asset and network", async () => {
+    const { policy } = createPolicy({
+      limits: [
+        { asset: USDC, network: "base-sepolia", dailyBudget: "1000" },
+        { asset: USDC, network: "base", dailyBudget: "1000" },
+      ],
+    });
+    await policy.authorize(requirement("1000"));
+    assert.equal(
+      (await policy.evaluate(requirement("1000", { network: "base" }))).allowed,
+      true
+    );
+    assert.equal((await policy.evaluate(requirement("1"))).allowed, false);
+  });
+
+  it("gives a released spend back to the budget", async () => {
+    const { policy } = createPolicy({
+      limits: [{ asset: USDC, dailyBudget: "1000" }],
+    });
+    const spendId = await policy.authorize(requirement("1000"));
+    await policy.release(spendId);
+    assert.equal((await policy.evaluate(requirement("1000"))).allowed, true);
+  });
+
+  it("does not let concurrent payments overrun a budget together", async () => {
+    const { policy } = createPolicy({
+      limits: [{ asset: USDC, dailyBudget: "1000" }],
+    });
+    const results = await Promise.allSettled([
+      policy.authorize(requirement("600")),
+      policy.authorize(requirement("600")),
+    ]);
+    assert.deepEqual(
+      results.map((result) => result.status).sort(),
+      ["fulfilled", "rejected"]
+    );
+  });
+});
+
+describe("SpendingPolicy limits", () => {
+  it("enforces the per-payment cap", async () => {
+    const { policy } = createPolicy({
+      limits: [{ asset: USDC, maxPerPayment: "500" }],
+    });
+    await policy.authorize(requirement("500"));
+    await rejects(
+      policy.authorize(requirement("501")),
+      x402ErrorCode.SPENDING_LIMIT_EXCEEDED
+    );
+  });
+
+  it("refuses assets without a configured limit by default", async () => {
+    const { policy } = createPolicy({ limits: [{ asset: USDC }] });
+    const other = requirement("1", {
+      asset: "0x0000000000000000000000000000000000000b0b",
+    });
+    assert.equal((await policy.evaluate(other)).allowed, false);
+
+    const { policy: lenient } = createPolicy({ denyUnlistedAssets: false });
+    assert.equal((await lenient.evaluate(other)).allowed, true);
+  });
+
+  it("applies the payTo allow and deny lists case-insensitively", async () => {
+    const { policy } = createPolicy({
+      limits: [{ asset: USDC }],
+      deniedPayTo: [MERCHANT.toUpperCase().replace("0X", "0x")],
+    });
+    assert.equal((await policy.evaluate(requirement("1"))).allowed, false);
+
+    const { policy: allowing } = createPolicy({
+      limits: [{ asset: USDC }],
+      allowedPayTo: ["0x0000000000000000000000000000000000000c0c"],
+    });
+    assert.equal((await allowing.evaluate(requirement("1"))).allowed, false);
+  });
+
+  it("asks for approval above the threshold and refuses without it", async () => {
+    const config: SpendingPolicyConfig = {
+      limits: [{ asset: USDC, approvalThreshold: "100" }],
+    };
+    const { policy } = createPolicy(config);
+    await policy.authorize(requirement("100"));
+    await rejects(
+      policy.authorize(requirement("101")),
+      x402ErrorCode.APPROVAL_REQUIRED
+    );
+
+    const { policy: approving } = createPolicy(config, {
+      requestApproval: async () => true,
+    });
+    await approving.authorize(requirement("101"));
+  });
+});
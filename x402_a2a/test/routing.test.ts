@@ -0,0 +1,229 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { DefaultFacilitatorClient } from "../core/facilitator";
+import { RoutingFacilitatorClient } from "../core/routing";
+import {
+  FacilitatorFailureReason,
+  FacilitatorUnavailableError,
+  PaymentError,
+} from "../types/errors";
+import {
+  CircuitState,
+  FacilitatorClient,
+  FacilitatorHealth,
+  PaymentPayload,
+  PaymentRequirements,
+  SettleResponse,
+  VerifyResponse,
+} from "../types/state";
+
+const requirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  payTo: "0x0000000000000000000000000000000000000a11",
+  maxAmountRequired: "10000",
+  resource: "/content",
+  description: "",
+  mimeType: "application/json",
+  maxTimeoutSeconds: 600,
+};
+
+const payload: PaymentPayload = {
+  x402Version: 1,
+  scheme: "exact",
+  network: "base-sepolia",
+  payload: {
+    signature: "0x",
+    authorization: {
+      from: "0x0000000000000000000000000000000000000b0b",
+      to: requirements.payTo,
+      value: "10000",
+      validAfter: 0,
+      validBefore: 9999999999,
+      nonce: "0x" + "11".repeat(32),
+    },
+  },
+};
+
+/**
+ * Facilitator that answers, or fails with the given error, and logs its calls
+ */
+class ScriptedFacilitator implements FacilitatorClient {
+  constructor(
+    private name: string,
+    private calls: string[],
+    private failure?: Error,
+    private state: CircuitState = CircuitState.CLOSED
+  ) {}
+
+  async verify(): Promise<VerifyResponse> {
+    this.calls.push(`verify:${this.name}`);
+    if (this.failure) {
+      throw this.failure;
+    }
+    return { isValid: true };
+  }
+
+  async settle(): Promise<SettleResponse> {
+    this.calls.push(`settle:${this.name}`);
+    if (this.failure) {
+      throw this.failure;
+    }
+    return { success: true, network: requirements.network, transaction: "0xabc" };
+  }
+
+  getHealth(): FacilitatorHealth {
+    return { state: this.state, consecutiveFailures: 0 };
+  }
+}
+
+function unavailable(reason: FacilitatorFailureReason): FacilitatorUnavailableError {
+  return new FacilitatorUnavailableError(`facilitator ${reason}`, reason);
+}
+
+function createRouter(
+  calls: string[],
+  ...facilitators: Array<[string, Error | undefined, CircuitState?]>
+): RoutingFacilitatorClient {
+  return new RoutingFacilitatorClient({
+    routes: facilitators.map(([name, failure, state]) => ({
+      name,
+      facilitator: new ScriptedFacilitator(name, calls, failure, state),
+    })),
+  });
+}
+
+describe("RoutingFacilitatorClient verify", () => {
+  it("tries routes in order until one answers", async () => {
+    const calls: string[] = [];
+    const router = createRouter(
+      calls,
+      ["a", unavailable("timeout")],
+      ["b", unavailable("http")],
+      ["c", undefined],
+      ["d", undefined]
+    );
+    assert.deepEqual(await router.verify(payload, requirements), { isValid: true });
+    assert.deepEqual(calls, ["verify:a", "verify:b", "verify:c"]);
+  });
+
+  it("tries routes with an open circuit last", async () => {
+    const calls: string[] = [];
+    const router = createRouter(
+      calls,
+      ["open", undefined, CircuitState.OPEN],
+      ["half-open", unavailable("network"), CircuitState.HALF_OPEN],
+      ["closed", unavailable("network")]
+    );
+    assert.deepEqual(
+      router.getRoutes(requirements).map((route) => route.name),
+      ["half-open", "closed", "open"]
+    );
+    await router.verify(payload, requirements);
+    assert.deepEqual(calls, ["verify:half-open", "verify:closed", "verify:open"]);
+  });
+
+  it("does not fail over on errors other than unavailability", async () => {
+    const calls: string[] = [];
+    const router = createRouter(calls, ["a", new PaymentError("refused")], ["b", undefined]);
+    await assert.rejects(router.verify(payload, requirements), /refused/);
+    assert.deepEqual(calls, ["verify:a"]);
+  });
+
+  it("raises FacilitatorUnavailableError naming every route when all are down", async () => {
+    const calls: string[] = [];
+    const router = createRouter(
+      calls,
+      ["a", unavailable("timeout")],
+      ["b", unavailable("network")]
+    );
+    await assert.rejects(router.verify(payload, requirements), (error: unknown) => {
+      assert.ok(error instanceof FacilitatorUnavailableError);
+      assert.match(error.message, /tried a, b/);
+      assert.equal(error.reason, "network");
+      return true;
+    });
+  });
+
+  it("answers invalid when no route serves the payment", async () => {
+    const router = new RoutingFacilitatorClient({
+      routes: [
+        {
+          name: "mainnet",
+          facilitator: new ScriptedFacilitator("mainnet", []),
+          networks: ["base"],
+        },
+      ],
+    });
+    const response = await router.verify(payload, requirements);
+    assert.equal(response.isValid, false);
+    assert.match(response.invalidReason!, /No facilitator route/);
+  });
+});
+
+describe("RoutingFacilitatorClient settle", () => {
+  for (const reason of ["unreachable", "circuit-open"] as const) {
+    it(`fails over when the first route is ${reason}`, async () => {
+      const calls: string[] = [];
+      const router = createRouter(calls, ["a", unavailable(reason)], ["b", undefined]);
+      const response = await router.settle(payload, requirements);
+      assert.equal(response.success, true);
+      assert.equal(response.facilitator, "b");
+      assert.deepEqual(calls, ["settle:a", "settle:b"]);
+    });
+  }
+
+  for (const reason of ["timeout", "network", "http", "invalid-response"] as const) {
+    it(`raises a "${reason}" failure instead of settling again elsewhere`, async () => {
+      const calls: string[] = [];
+      const router = createRouter(calls, ["a", unavailable(reason)], ["b", undefined]);
+      await assert.rejects(router.settle(payload, requirements), (error: unknown) => {
+        assert.ok(error instanceof FacilitatorUnavailableError);
+        assert.equal(error.reason, reason);
+        return true;
+      });
+      assert.deepEqual(calls, ["settle:a"]);
+    });
+  }
+
+  it("fails over from a facilitator whose connection is refused", async () => {
+    // A port that was just released refuses connections
+    const server = createServer();
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    await new Promise((resolve) => server.close(resolve));
+
+    const calls: string[] = [];
+    const router = new RoutingFacilitatorClient({
+      routes: [
+        {
+          name: "down",
+          facilitator: new DefaultFacilitatorClient({
+            url: `http://127.0.0.1:${port}`,
+            maxRetries: 0,
+          }),
+        },
+        { name: "up", facilitator: new ScriptedFacilitator("up", calls) },
+      ],
+    });
+    const response = await router.settle(payload, requirements);
+    assert.equal(response.facilitator, "up");
+    assert.deepEqual(calls, ["settle:up"]);
+  });
+});
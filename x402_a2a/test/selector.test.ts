@@ -0,0 +1,199 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BalanceSelector,
+  CheapestSelector,
+  CompositeSelector,
+  FirstOptionSelector,
+  PreferredAssetSelector,
+  PreferredNetworkSelector,
+} from "../core/selector";
+import { registerAsset } from "../core/networks";
+import { PaymentRequirements } from "../types/state";
+
+const BASE_USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const SEPOLIA_USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+// An 18-decimal token, so equal USD values have very different atomic amounts
+const SEPOLIA_DAI = "0x00000000000000000000000000000000000000da";
+const UNKNOWN = "0x0000000000000000000000000000000000000bad";
+
+registerAsset("base-sepolia", {
+  address: SEPOLIA_DAI,
+  symbol: "DAI",
+  decimals: 18,
+  eip712: { name: "Dai Stablecoin", version: "1" },
+});
+
+function entry(
+  network: string,
+  asset: string,
+  maxAmountRequired: string,
+  resource: string
+): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network,
+    asset,
+    payTo: "0x0000000000000000000000000000000000000a11",
+    maxAmountRequired,
+    resource,
+    description: "",
+    mimeType: "application/json",
+    maxTimeoutSeconds: 600,
+  };
+}
+
+const ids = (ranked: PaymentRequirements[]) => ranked.map((r) => r.resource);
+
+describe("FirstOptionSelector", () => {
+  it("keeps the merchant's order", async () => {
+    const accepts = [
+      entry("base", BASE_USDC, "2", "a"),
+      entry("base", BASE_USDC, "1", "b"),
+    ];
+    assert.deepEqual(ids(await new FirstOptionSelector().rank(accepts)), [
+      "a",
+      "b",
+    ]);
+  });
+});
+
+describe("CheapestSelector", () => {
+  it("compares USD value across assets with different decimals", async () => {
+    const selector = new CheapestSelector({ usdRates: { USDC: 1, DAI: 1 } });
+    const accepts = [
+      entry("base-sepolia", SEPOLIA_USDC, "1000000", "usdc-1.00"),
+      entry("base-sepolia", SEPOLIA_DAI, "990000000000000000", "dai-0.99"),
+    ];
+    assert.deepEqual(ids(await selector.rank(accepts)), [
+      "dai-0.99",
+      "usdc-1.00",
+    ]);
+  });
+
+  it("keeps the merchant's order when prices tie", async () => {
+    const selector = new CheapestSelector({ usdRates: { USDC: 1, DAI: 1 } });
+    const accepts = [
+      entry("base", BASE_USDC, "1000000", "base-usdc"),
+      entry("base-sepolia", SEPOLIA_DAI, "1000000000000000000", "dai"),
+      entry("base-sepolia", SEPOLIA_USDC, "1000000", "sepolia-usdc"),
+    ];
+    assert.deepEqual(ids(await selector.rank(accepts)), [
+      "base-usdc",
+      "dai",
+      "sepolia-usdc",
+    ]);
+    assert.deepEqual(ids(await selector.rank([...accepts].reverse())), [
+      "sepolia-usdc",
+      "dai",
+      "base-usdc",
+    ]);
+  });
+
+  it("puts entries without decimals or a rate last, in their original order", async () => {
+    const selector = new CheapestSelector();
+    const accepts = [
+      entry("base-sepolia", UNKNOWN, "1", "unknown-asset"),
+      entry("base-sepolia", SEPOLIA_DAI, "1", "no-rate"),
+      entry("base-sepolia", SEPOLIA_USDC, "5000000", "usdc"),
+    ];
+    assert.deepEqual(ids(await selector.rank(accepts)), [
+      "usdc",
+      "unknown-asset",
+      "no-rate",
+    ]);
+  });
+});
+
+describe("PreferredNetworkSelector and PreferredAssetSelector", () => {
+  it("orders by preference and keeps ties in the merchant's order", async () => {
+    const accepts = [
+      entry("base-sepolia", SEPOLIA_USDC, "1", "sepolia-1"),
+      entry("base", BASE_USDC, "1", "base-1"),
+      entry("base-sepolia", SEPOLIA_DAI, "1", "sepolia-2"),
+      entry("base", BASE_USDC, "2", "base-2"),
+    ];
+    assert.deepEqual(
+      ids(await new PreferredNetworkSelector(["base"]).rank(accepts)),
+      ["base-1", "base-2", "sepolia-1", "sepolia-2"]
+    );
+    assert.deepEqual(
+      ids(await new PreferredAssetSelector(["DAI"]).rank(accepts)),
+      ["sepolia-2", "sepolia-1", "base-1", "base-2"]
+    );
+  });
+
+  it("matches assets by address regardless of case", async () => {
+    const accepts = [
+      entry("base", BASE_USDC, "1", "usdc"),
+      entry("base-sepolia", UNKNOWN, "1", "unknown"),
+    ];
+    const selector = new PreferredAssetSelector([
+      UNKNOWN.toUpperCase().replace("0X", "0x"),
+    ]);
+    assert.deepEqual(ids(await selector.rank(accepts)), ["unknown", "usdc"]);
+  });
+});
+
+describe("BalanceSelector", () => {
+  const balances: Record<string, bigint> = {
+    [SEPOLIA_USDC]: 1_000_000n,
+  };
+  const selector = new BalanceSelector(async (_network, asset) => {
+    if (asset === UNKNOWN) {
+      throw new Error("RPC unreachable");
+    }
+    return balances[asset];
+  });
+
+  it("drops entries the payer cannot cover or whose balance is unknown", async () => {
+    const accepts = [
+      entry("base-sepolia", SEPOLIA_USDC, "1000000", "exact-balance"),
+      entry("base-sepolia", SEPOLIA_USDC, "1000001", "too-much"),
+      entry("base-sepolia", SEPOLIA_DAI, "1", "no-balance"),
+      entry("base-sepolia", UNKNOWN, "1", "lookup-fails"),
+    ];
+    assert.deepEqual(ids(await selector.rank(accepts, { payer: "0xpayer" })), [
+      "exact-balance",
+    ]);
+  });
+
+  it("drops nothing without a payer", async () => {
+    const accepts = [entry("base-sepolia", SEPOLIA_USDC, "1000001", "too-much")];
+    assert.deepEqual(ids(await selector.rank(accepts, {})), ["too-much"]);
+  });
+});
+
+describe("CompositeSelector", () => {
+  it("lets later selectors break the ties of earlier ones", async () => {
+    const accepts = [
+      entry("base-sepolia", SEPOLIA_USDC, "3000000", "sepolia-3"),
+      entry("base", BASE_USDC, "2000000", "base-2"),
+      entry("base-sepolia", SEPOLIA_USDC, "1000000", "sepolia-1"),
+      entry("base", BASE_USDC, "1000000", "base-1"),
+    ];
+    const selector = new CompositeSelector(
+      new PreferredNetworkSelector(["base-sepolia"]),
+      new CheapestSelector()
+    );
+    assert.deepEqual(ids(await selector.rank(accepts, {})), [
+      "sepolia-1",
+      "sepolia-3",
+      "base-1",
+      "base-2",
+    ]);
+  });
+});
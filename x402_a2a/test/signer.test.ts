@@ -0,0 +1,211 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, RequestListener, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { Wallet, encryptKeystoreJsonSync, verifyTypedData } from "ethers";
+import {
+  EthersSigner,
+  KeystoreSigner,
+  RemoteSigner,
+  WalletSigner,
+  createSigningServiceHandler,
+} from "../core/signer";
+import {
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  getTransferWithAuthorizationDomain,
+  processPayment,
+} from "../core/wallet";
+import { PaymentError } from "../types/errors";
+import { PaymentPayload, PaymentRequirements, PaymentSigner } from "../types/state";
+
+const requirements: PaymentRequirements = {
+  scheme: "exact",
+  network: "base-sepolia",
+  asset: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  payTo: "0x0000000000000000000000000000000000000a11",
+  maxAmountRequired: "10000",
+  resource: "/content",
+  description: "",
+  mimeType: "application/json",
+  maxTimeoutSeconds: 600,
+};
+
+function recover(payload: PaymentPayload): string {
+  const { authorization, signature } = payload.payload;
+  return verifyTypedData(
+    getTransferWithAuthorizationDomain(requirements),
+    TRANSFER_WITH_AUTHORIZATION_TYPES,
+    authorization,
+    signature
+  );
+}
+
+async function assertSignsFor(signer: PaymentSigner, address: string): Promise<void> {
+  assert.equal(signer.address, address);
+  const payload = await processPayment(requirements, signer);
+  assert.equal(payload.payload.authorization.from, address);
+  assert.equal(recover(payload), address);
+}
+
+/**
+ * Serves handler on an ephemeral localhost port for the duration of the suite
+ */
+function serve(handler: RequestListener): { url: () => string } {
+  let server: Server;
+  before(async () => {
+    server = createServer(handler);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  });
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+  return {
+    url: () => `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+  };
+}
+
+async function rejectsWithPaymentError(
+  promise: Promise<unknown>,
+  message: RegExp
+): Promise<void> {
+  await assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof PaymentError, String(error));
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe("WalletSigner", () => {
+  it("signs authorizations that recover to the wallet", async () => {
+    const wallet = Wallet.createRandom();
+    await assertSignsFor(new WalletSigner(wallet), wallet.address);
+  });
+});
+
+describe("EthersSigner", () => {
+  it("resolves the address once and signs through the ethers signer", async () => {
+    const wallet = Wallet.createRandom();
+    await assertSignsFor(await EthersSigner.create(wallet), wallet.address);
+  });
+});
+
+describe("KeystoreSigner", () => {
+  const wallet = Wallet.createRandom();
+  // A low scrypt cost keeps the test fast; real keystores use the default
+  const json = encryptKeystoreJsonSync(
+    { address: wallet.address, privateKey: wallet.privateKey },
+    "correct horse",
+    { scrypt: { N: 1 << 10 } }
+  );
+
+  it("decrypts the keystore and signs with its key", async () => {
+    const signer = await KeystoreSigner.fromJson(json, "correct horse");
+    await assertSignsFor(signer, wallet.address);
+  });
+
+  it("rejects a wrong password", async () => {
+    await assert.rejects(KeystoreSigner.fromJson(json, "wrong"));
+  });
+});
+
+describe("RemoteSigner", () => {
+  const wallet = Wallet.createRandom();
+  const service = serve(
+    createSigningServiceHandler(new WalletSigner(wallet), { apiKey: "secret" })
+  );
+  // Claims the wallet's address but signs with another key
+  const other = Wallet.createRandom();
+  const impostor = serve(
+    createSigningServiceHandler({
+      address: wallet.address,
+      signTypedData: (domain, types, value) =>
+        other.signTypedData(domain, types, value),
+    })
+  );
+  const broken = serve((req, res) => {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(req.url === "/sign-typed-data" ? "not json" : "{}");
+  });
+  const empty = serve((_req, res) => {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end("null");
+  });
+
+  it("signs through the service", async () => {
+    const signer = new RemoteSigner({
+      url: service.url() + "/",
+      address: wallet.address,
+      apiKey: "secret",
+    });
+    await assertSignsFor(signer, wallet.address);
+  });
+
+  it("raises PaymentError when the service refuses", async () => {
+    const signer = new RemoteSigner({
+      url: service.url(),
+      address: wallet.address,
+      apiKey: "wrong",
+    });
+    await rejectsWithPaymentError(processPayment(requirements, signer), /HTTP 401/);
+  });
+
+  it("raises PaymentError when the service holds another key", async () => {
+    const signer = new RemoteSigner({
+      url: service.url(),
+      address: Wallet.createRandom().address,
+      apiKey: "secret",
+    });
+    await rejectsWithPaymentError(processPayment(requirements, signer), /HTTP 403/);
+  });
+
+  it("raises PaymentError when the signature recovers to another address", async () => {
+    const signer = new RemoteSigner({ url: impostor.url(), address: wallet.address });
+    await rejectsWithPaymentError(
+      processPayment(requirements, signer),
+      new RegExp(`signature for ${other.address}`)
+    );
+  });
+
+  it("raises PaymentError for a malformed or empty reply", async () => {
+    const malformed = new RemoteSigner({ url: broken.url(), address: wallet.address });
+    await rejectsWithPaymentError(
+      processPayment(requirements, malformed),
+      /invalid JSON/
+    );
+
+    const missing = new RemoteSigner({ url: empty.url(), address: wallet.address });
+    await rejectsWithPaymentError(
+      processPayment(requirements, missing),
+      /no signature/
+    );
+  });
+
+  it("raises PaymentError when the service is unreachable", async () => {
+    const signer = new RemoteSigner({
+      url: "http://127.0.0.1:1",
+      address: wallet.address,
+      timeoutMs: 2000,
+    });
+    await rejectsWithPaymentError(processPayment(requirements, signer), /unreachable/);
+  });
+
+  it("rejects URLs without an http(s) scheme", () => {
+    assert.throws(
+      () => new RemoteSigner({ url: "ftp://signer", address: wallet.address }),
+      /must start with http/
+    );
+  });
+});
@@ -0,0 +1,211 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileNonceLedger,
+  FilePaymentRequirementsStore,
+  InMemoryNonceLedger,
+  InMemoryPaymentRequirementsStore,
+  getNonceLedgerKey,
+} from "../core/store";
+import {
+  NonceKey,
+  NonceLedger,
+  PaymentRequirements,
+  PaymentRequirementsStore,
+} from "../types/state";
+
+const key: NonceKey = {
+  from: "0xAbC0000000000000000000000000000000000001",
+  nonce: "0x" + "11".repeat(32),
+  asset: "0xDeF0000000000000000000000000000000000002",
+  network: "base-sepolia",
+};
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function ledgerSuite(name: string, create: () => NonceLedger) {
+  describe(name, () => {
+    it("refuses a nonce that is already reserved", async () => {
+      const ledger = create();
+      assert.equal(await ledger.reserve(key, now() + 600), true);
+      assert.equal(await ledger.reserve(key, now() + 600), false);
+    });
+
+    it("treats the key case-insensitively", async () => {
+      const ledger = create();
+      assert.equal(await ledger.reserve(key, now() + 600), true);
+      const shouted = { ...key, from: key.from.toUpperCase() };
+      assert.equal(await ledger.reserve(shouted, now() + 600), false);
+    });
+
+    it("allows the same nonce on another asset or network", async () => {
+      const ledger = create();
+      assert.equal(await ledger.reserve(key, now() + 600), true);
+      assert.equal(
+        await ledger.reserve({ ...key, network: "base" }, now() + 600),
+        true
+      );
+      assert.equal(
+        await ledger.reserve(
+          { ...key, asset: "0x0000000000000000000000000000000000000003" },
+          now() + 600
+        ),
+        true
+      );
+    });
+
+    it("lets a released nonce be reserved again", async () => {
+      const ledger = create();
+      await ledger.reserve(key, now() + 600);
+      await ledger.release(key);
+      assert.equal(await ledger.reserve(key, now() + 600), true);
+    });
+
+    it("lets a nonce be reserved again once its authorization has expired", async () => {
+      const ledger = create();
+      assert.equal(await ledger.reserve(key, now() - 1), true);
+      assert.equal(await ledger.reserve(key, now() + 600), true);
+    });
+
+    it("expires only entries whose validBefore has passed", async () => {
+      const ledger = create();
+      const live = { ...key, nonce: "0x" + "22".repeat(32) };
+      await ledger.reserve(live, now() + 600);
+      await ledger.reserve(key, now() - 1);
+      assert.equal(await ledger.expire(), 1);
+      assert.equal(await ledger.expire(), 0);
+      assert.equal(await ledger.reserve(live, now() + 600), false);
+    });
+
+    it("drops expired entries on every reserve", async () => {
+      const ledger = create();
+      for (let i = 0; i < 5; i++) {
+        await ledger.reserve({ ...key, nonce: `0x${i}` }, now() - 1);
+      }
+      await ledger.reserve(key, now() + 600);
+      assert.equal(await ledger.expire(), 0);
+    });
+  });
+}
+
+ledgerSuite("InMemoryNonceLedger", () => new InMemoryNonceLedger());
+
+ledgerSuite("FileNonceLedger", () => {
+  const dir = mkdtempSync(join(tmpdir(), "x402-ledger-"));
+  return new FileNonceLedger(join(dir, "nonces.json"));
+});
+
+describe("FileNonceLedger across instances", () => {
+  it("lets only one of two ledgers on the same file claim a nonce", async () => {
+    const file = join(mkdtempSync(join(tmpdir(), "x402-ledger-")), "nonces.json");
+    const results = await Promise.all([
+      new FileNonceLedger(file).reserve(key, now() + 600),
+      new FileNonceLedger(file).reserve(key, now() + 600),
+    ]);
+    assert.deepEqual(results.sort(), [false, true]);
+  });
+});
+
+describe("FileNonceLedger file size", () => {
+  it("only keeps live authorizations on disk", async () => {
+    const file = join(mkdtempSync(join(tmpdir(), "x402-ledger-")), "nonces.json");
+    const ledger = new FileNonceLedger(file);
+    for (let i = 0; i < 5; i++) {
+      await ledger.reserve({ ...key, nonce: `0x${i}` }, now() - 1);
+    }
+    assert.equal(Object.keys(JSON.parse(readFileSync(file, "utf-8"))).length, 1);
+
+    await ledger.reserve(key, now() + 600);
+    assert.deepEqual(Object.keys(JSON.parse(readFileSync(file, "utf-8"))), [
+      getNonceLedgerKey(key),
+    ]);
+  });
+});
+
+describe("getNonceLedgerKey", () => {
+  it("joins network, asset, payer and nonce in lower case", () => {
+    assert.equal(
+      getNonceLedgerKey(key),
+      `base-sepolia:${key.asset.toLowerCase()}:${key.from.toLowerCase()}:${key.nonce}`
+    );
+  });
+});
+
+function quote(maxTimeoutSeconds: number): PaymentRequirements[] {
+  return [
+    {
+      scheme: "exact",
+      network: "base-sepolia",
+      asset: key.asset,
+      payTo: "0x0000000000000000000000000000000000000a11",
+      maxAmountRequired: "10000",
+      resource: "/content",
+      description: "",
+      mimeType: "application/json",
+      maxTimeoutSeconds,
+    },
+  ];
+}
+
+function requirementsStoreSuite(
+  name: string,
+  create: () => PaymentRequirementsStore
+) {
+  describe(name, () => {
+    it("returns stored requirements until they expire", async () => {
+      const store = create();
+      await store.set("live", quote(600));
+      await store.set("expired", quote(0));
+      assert.deepEqual(await store.get("live"), quote(600));
+      assert.equal(await store.get("expired"), undefined);
+    });
+
+    it("drops quotes that expired unpaid on every set", async () => {
+      const store = create();
+      for (let i = 0; i < 5; i++) {
+        await store.set(`unpaid-${i}`, quote(0));
+      }
+      await store.set("live", quote(600));
+      assert.equal(await store.expire(), 0);
+      assert.deepEqual(await store.get("live"), quote(600));
+    });
+  });
+}
+
+requirementsStoreSuite(
+  "InMemoryPaymentRequirementsStore",
+  () => new InMemoryPaymentRequirementsStore()
+);
+
+requirementsStoreSuite("FilePaymentRequirementsStore", () => {
+  const dir = mkdtempSync(join(tmpdir(), "x402-requirements-"));
+  return new FilePaymentRequirementsStore(join(dir, "requirements.json"));
+});
+
+describe("FilePaymentRequirementsStore file size", () => {
+  it("only keeps live quotes on disk", async () => {
+    const file = join(mkdtempSync(join(tmpdir(), "x402-requirements-")), "requirements.json");
+    const store = new FilePaymentRequirementsStore(file);
+    for (let i = 0; i < 5; i++) {
+      await store.set(`unpaid-${i}`, quote(0));
+    }
+    await store.set("live", quote(600));
+    assert.deepEqual(Object.keys(JSON.parse(readFileSync(file, "utf-8"))), ["live"]);
+  });
+});
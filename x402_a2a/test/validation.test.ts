@@ -0,0 +1,84 @@
+//
+// Licensed under the Apache License, Version 2.0 (the "License");
+// you may not use this file except in compliance with the License.
+// You may obtain a copy of the License at
+//
+//     https://www.apache.org/licenses/LICENSE-2.0
+//
+// Unless required by applicable law or agreed to in writing, software
+// distributed under the License is distributed on an "AS IS" BASIS,
+// WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+// See the License for the specific language governing permissions and
+// limitations under the License.
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Wallet } from "ethers";
+import { validatePaymentPayload } from "../core/validation";
+import { processPayment } from "../core/wallet";
+import { x402ErrorCode } from "../types/errors";
+import { PaymentPayload, PaymentRequirements } from "../types/state";
+
+const USDC = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+// A token on the same network whose EIP-712 domain is quoted in extra
+const EURC = "0x0000000000000000000000000000000000000e0c";
+const UNKNOWN = "0x0000000000000000000000000000000000000bad";
+
+function requirement(
+  asset: string,
+  overrides: Partial<PaymentRequirements> = {}
+): PaymentRequirements {
+  return {
+    scheme: "exact",
+    network: "base-sepolia",
+    asset,
+    payTo: "0x0000000000000000000000000000000000000a11",
+    maxAmountRequired: "10000",
+    resource: "/content",
+    description: "",
+    mimeType: "application/json",
+    maxTimeoutSeconds: 600,
+    ...overrides,
+  };
+}
+
+const usdc = requirement(USDC);
+const eurc = requirement(EURC, { extra: { name: "EURC", version: "2" } });
+
+function withSignature(payload: PaymentPayload, signature: string): PaymentPayload {
+  return { ...payload, payload: { ...payload.payload, signature } };
+}
+
+describe("validatePaymentPayload signature checks", () => {
+  it("matches the entry whose asset the payload was signed for", async () => {
+    const payload = await processPayment(eurc, Wallet.createRandom());
+    const result = validatePaymentPayload(payload, [usdc, eurc]);
+    assert.equal(result.isValid, true);
+    assert.equal(result.requirement, eurc);
+  });
+
+  it("answers INVALID_SIGNATURE when the signature recovers to another address", async () => {
+    const payload = await processPayment(usdc, Wallet.createRandom());
+    const other = await processPayment(usdc, Wallet.createRandom());
+    const result = validatePaymentPayload(
+      withSignature(payload, other.payload.signature),
+      [usdc]
+    );
+    assert.equal(result.errorCode, x402ErrorCode.INVALID_SIGNATURE);
+    assert.match(result.invalidReason!, /not signed by/);
+  });
+
+  it("answers INVALID_PAYLOAD when no address can be recovered from the signature", async () => {
+    const payload = await processPayment(usdc, Wallet.createRandom());
+    const result = validatePaymentPayload(withSignature(payload, "0x1234"), [usdc]);
+    assert.equal(result.errorCode, x402ErrorCode.INVALID_PAYLOAD);
+    assert.match(result.invalidReason!, /could not be recovered/);
+  });
+
+  it("answers UNSUPPORTED_PAYMENT_KIND when the quoted asset has no known domain", async () => {
+    const payload = await processPayment(usdc, Wallet.createRandom());
+    const result = validatePaymentPayload(payload, [requirement(UNKNOWN)]);
+    assert.equal(result.errorCode, x402ErrorCode.UNSUPPORTED_PAYMENT_KIND);
+    assert.match(result.invalidReason!, /No EIP-712 domain known/);
+  });
+});
@@ -17,6 +17,11 @@
 
 export const X402_EXTENSION_URI = "https://github.com/google-a2a/a2a-x402/v0.1";
 
+/**
+ * HTTP header in which A2A clients request extensions and agents confirm them
+ */
+export const A2A_EXTENSIONS_HEADER = "X-A2A-Extensions";
+
 export interface TokenAmount {
   value: string;
   asset: string;
@@ -25,10 +30,19 @@ export interface TokenAmount {
 
 export type Price = string | number | TokenAmount;
 
+/**
+ * Amount in an asset's smallest unit, e.g. 1500000 for 1.5 USDC
+ */
+export type AtomicAmount = bigint | number | string;
+
 export interface x402ExtensionConfig {
   extensionUri?: string;
   version?: string;
   x402Version?: number;
+  /**
+   * Reject requests that did not activate the extension, instead of serving
+   * them without payments (defaults to true)
+   */
   required?: boolean;
 }
 
@@ -39,6 +53,42 @@ export const DEFAULT_X402_EXTENSION_CONFIG: x402ExtensionConfig = {
   required: true,
 };
 
+export interface AssetConfig {
+  address: string;
+  symbol: string;
+  decimals: number;
+  /**
+   * EIP-712 domain name and version the token contract signs transferWithAuthorization under
+   */
+  eip712: {
+    name: string;
+    version: string;
+  };
+}
+
+export interface NetworkConfig {
+  name: string;
+  chainId: number;
+  displayName: string;
+  explorerUrl?: string;
+  /**
+   * Assets accepted on this network; the first one is the default for money-style prices
+   */
+  assets: AssetConfig[];
+}
+
+/**
+ * Order in which a server executor delivers the service and settles a verified payment
+ */
+export enum SettlementMode {
+  /** verify → deliver → settle */
+  DELIVER_THEN_SETTLE = "deliver-then-settle",
+  /** verify → settle → deliver */
+  SETTLE_THEN_DELIVER = "settle-then-deliver",
+  /** verify → settle-async → deliver */
+  SETTLE_ASYNC = "settle-async",
+}
+
 export interface x402ServerConfig {
   price: Price;
   payToAddress: string;
@@ -49,3 +99,32 @@ export interface x402ServerConfig {
   resource?: string;
   assetAddress?: string;
 }
+
+/**
+ * Limits on payments in one asset. Amounts are in the asset's smallest unit;
+ * budgets are rolling windows over the spend history.
+ */
+export interface SpendingLimit {
+  /** Asset contract address the limit applies to */
+  asset: string;
+  /** Restricts the limit to one network; applies on every network when omitted */
+  network?: string;
+  maxPerPayment?: AtomicAmount;
+  /** Budget over the last 24 hours */
+  dailyBudget?: AtomicAmount;
+  /** Budget over the last 7 days */
+  weeklyBudget?: AtomicAmount;
+  /** Payments above this amount need human approval */
+  approvalThreshold?: AtomicAmount;
+}
+
+export interface SpendingPolicyConfig {
+  limits?: SpendingLimit[];
+  /** Only these payTo addresses may be paid, when given */
+  allowedPayTo?: string[];
+  deniedPayTo?: string[];
+  /** Only these networks may be used, when given */
+  allowedNetworks?: string[];
+  /** Reject assets that no limit mentions (defaults to true) */
+  denyUnlistedAssets?: boolean;
+}
@@ -33,9 +33,15 @@ export class MessageError extends x402Error {
 }
 
 export class ValidationError extends x402Error {
-  constructor(message: string) {
+  /**
+   * Path of the offending field, e.g. `$.accepts[0].payTo`, when known
+   */
+  public readonly fieldPath?: string;
+
+  constructor(message: string, fieldPath?: string) {
     super(message);
     this.name = "ValidationError";
+    this.fieldPath = fieldPath;
   }
 }
 
@@ -46,6 +52,81 @@ export class PaymentError extends x402Error {
   }
 }
 
+export class SpendingPolicyError extends PaymentError {
+  /**
+   * SPENDING_LIMIT_EXCEEDED or APPROVAL_REQUIRED
+   */
+  public readonly errorCode: string;
+
+  constructor(message: string, errorCode: string) {
+    super(message);
+    this.name = "SpendingPolicyError";
+    this.errorCode = errorCode;
+  }
+}
+
+/**
+ * How a facilitator call failed to produce an answer. Only "unreachable" and
+ * "circuit-open" guarantee the request never reached the facilitator; after
+ * the others a settlement may still have been submitted.
+ */
+export type FacilitatorFailureReason =
+  | "timeout"
+  | "network"
+  | "unreachable"
+  | "http"
+  | "invalid-response"
+  | "circuit-open";
+
+/**
+ * The facilitator could not be reached or did not answer usably. Unlike a
+ * VerifyResponse with isValid false, this says nothing about the payment.
+ */
+export class FacilitatorUnavailableError extends PaymentError {
+  public readonly reason: FacilitatorFailureReason;
+  /**
+   * HTTP status, when the facilitator answered with one
+   */
+  public readonly status?: number;
+
+  constructor(message: string, reason: FacilitatorFailureReason, status?: number) {
+    super(message);
+    this.name = "FacilitatorUnavailableError";
+    this.reason = reason;
+    this.status = status;
+  }
+}
+
+/**
+ * The facilitator answered with a 4xx status and no verdict: it refused this
+ * request, e.g. as malformed or unauthorized, but is not down
+ */
+export class FacilitatorRequestError extends PaymentError {
+  public readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "FacilitatorRequestError";
+    this.status = status;
+  }
+}
+
+/**
+ * The client did not activate an extension the agent requires, with X-A2A-Extensions
+ */
+export class ExtensionNotActivatedError extends x402Error {
+  public readonly extensionUri: string;
+
+  constructor(extensionUri: string, message?: string) {
+    super(
+      message ||
+        `This agent requires the ${extensionUri} extension; activate it with the X-A2A-Extensions header`
+    );
+    this.name = "ExtensionNotActivatedError";
+    this.extensionUri = extensionUri;
+  }
+}
+
 export class StateError extends x402Error {
   constructor(message: string) {
     super(message);
@@ -53,11 +134,27 @@ export class StateError extends x402Error {
   }
 }
 
+/**
+ * An A2A JSON-RPC request that cannot be served; sent back as the response's error
+ */
+export class JsonRpcError extends x402Error {
+  public readonly code: number;
+  public readonly data?: unknown;
+
+  constructor(code: number, message: string, data?: unknown) {
+    super(message);
+    this.name = "JsonRpcError";
+    this.code = code;
+    this.data = data;
+  }
+}
+
 export interface PaymentRequiredExceptionOptions {
   price: Price;
   payToAddress: string;
   resource: string;
   network?: SupportedNetworks;
+  asset?: string;
   description?: string;
   message?: string;
 }
@@ -99,6 +196,7 @@ export class x402PaymentRequiredException extends x402Error {
       payToAddress: options.payToAddress,
       resource: options.resource,
       network: options.network,
+      asset: options.asset,
       description: options.description || "Payment required for this service",
     });
 
@@ -117,6 +215,16 @@ export class x402ErrorCode {
   static readonly NETWORK_MISMATCH = "NETWORK_MISMATCH";
   static readonly INVALID_AMOUNT = "INVALID_AMOUNT";
   static readonly SETTLEMENT_FAILED = "SETTLEMENT_FAILED";
+  static readonly DELIVERY_FAILED = "DELIVERY_FAILED";
+  static readonly INVALID_PAYLOAD = "INVALID_PAYLOAD";
+  static readonly VERSION_MISMATCH = "VERSION_MISMATCH";
+  static readonly RECIPIENT_MISMATCH = "RECIPIENT_MISMATCH";
+  static readonly SPENDING_LIMIT_EXCEEDED = "SPENDING_LIMIT_EXCEEDED";
+  static readonly APPROVAL_REQUIRED = "APPROVAL_REQUIRED";
+  static readonly UNSUPPORTED_PAYMENT_KIND = "UNSUPPORTED_PAYMENT_KIND";
+  static readonly FACILITATOR_UNAVAILABLE = "FACILITATOR_UNAVAILABLE";
+  static readonly SETTLEMENT_REORGED = "SETTLEMENT_REORGED";
+  static readonly SETTLEMENT_UNCONFIRMED = "SETTLEMENT_UNCONFIRMED";
 
   static getAllCodes(): string[] {
     return [
@@ -127,14 +235,44 @@ export class x402ErrorCode {
       this.NETWORK_MISMATCH,
       this.INVALID_AMOUNT,
       this.SETTLEMENT_FAILED,
+      this.DELIVERY_FAILED,
+      this.INVALID_PAYLOAD,
+      this.VERSION_MISMATCH,
+      this.RECIPIENT_MISMATCH,
+      this.SPENDING_LIMIT_EXCEEDED,
+      this.APPROVAL_REQUIRED,
+      this.UNSUPPORTED_PAYMENT_KIND,
+      this.FACILITATOR_UNAVAILABLE,
+      this.SETTLEMENT_REORGED,
+      this.SETTLEMENT_UNCONFIRMED,
     ];
   }
 }
 
+/**
+ * JSON-RPC 2.0 error codes, including those A2A defines
+ */
+export class JsonRpcErrorCode {
+  static readonly PARSE_ERROR = -32700;
+  static readonly INVALID_REQUEST = -32600;
+  static readonly METHOD_NOT_FOUND = -32601;
+  static readonly INVALID_PARAMS = -32602;
+  static readonly INTERNAL_ERROR = -32603;
+  static readonly TASK_NOT_FOUND = -32001;
+  static readonly TASK_NOT_CANCELABLE = -32002;
+  static readonly UNSUPPORTED_OPERATION = -32004;
+}
+
 export function mapErrorToCode(error: Error): string {
   if (error instanceof ValidationError) {
     return x402ErrorCode.INVALID_SIGNATURE;
   }
+  if (error instanceof SpendingPolicyError) {
+    return error.errorCode;
+  }
+  if (error instanceof FacilitatorUnavailableError) {
+    return x402ErrorCode.FACILITATOR_UNAVAILABLE;
+  }
   if (error instanceof PaymentError) {
     return x402ErrorCode.SETTLEMENT_FAILED;
   }
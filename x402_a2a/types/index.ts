@@ -18,11 +18,18 @@
 // Config types
 export {
   X402_EXTENSION_URI,
+  A2A_EXTENSIONS_HEADER,
   TokenAmount,
   Price,
+  AtomicAmount,
   x402ExtensionConfig,
   DEFAULT_X402_EXTENSION_CONFIG,
   x402ServerConfig,
+  SettlementMode,
+  AssetConfig,
+  NetworkConfig,
+  SpendingLimit,
+  SpendingPolicyConfig,
 } from "./config";
 
 // State types
@@ -38,16 +45,40 @@ export {
   x402PaymentRequiredResponse,
   VerifyResponse,
   SettleResponse,
+  ConfirmationStatus,
+  SettlementConfirmation,
+  SupportedPaymentKind,
+  SupportedResponse,
   TaskState,
   TextPart,
+  FileWithBytes,
+  FileWithUri,
+  FilePart,
+  DataPart,
+  Part,
   Message,
+  Artifact,
   TaskStatus,
   Task,
   RequestContext,
   EventQueue,
   AgentExecutor,
+  JsonRpcRequest,
+  JsonRpcResponse,
   FacilitatorConfig,
   FacilitatorClient,
+  CircuitState,
+  FacilitatorHealth,
+  PaymentRequirementsStore,
+  NonceKey,
+  NonceLedger,
+  ConfirmationTracker,
+  PaymentSigner,
+  PaymentSelectionContext,
+  PaymentRequirementSelector,
+  SpendRecord,
+  SpendHistory,
+  TaskStore,
 } from "./state";
 
 // Error types
@@ -56,6 +87,13 @@ export {
   MessageError,
   ValidationError,
   PaymentError,
+  SpendingPolicyError,
+  FacilitatorUnavailableError,
+  FacilitatorFailureReason,
+  FacilitatorRequestError,
+  JsonRpcError,
+  JsonRpcErrorCode,
+  ExtensionNotActivatedError,
   StateError,
   x402PaymentRequiredException,
   PaymentRequiredExceptionOptions,
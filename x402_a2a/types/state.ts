@@ -15,6 +15,8 @@
  * Payment state definitions, metadata keys, and state management types
  */
 
+import type { TypedDataDomain, TypedDataField } from "ethers";
+
 // Re-export TokenAmount from config
 export { TokenAmount } from "./config";
 
@@ -35,7 +37,14 @@ export class x402Metadata {
   static readonly ERROR_KEY = "x402.payment.error";
 }
 
-export type SupportedNetworks = "base" | "base-sepolia" | "ethereum" | "polygon" | "polygon-amoy";
+// Built-in networks; others can be added at runtime with registerNetwork
+export type SupportedNetworks =
+  | "base"
+  | "base-sepolia"
+  | "ethereum"
+  | "polygon"
+  | "polygon-amoy"
+  | (string & {});
 
 // Core x402 Protocol Types (equivalent to x402.types in Python)
 export interface EIP712Domain {
@@ -98,6 +107,59 @@ export interface SettleResponse {
   network: string;
   payer?: string;
   errorReason?: string;
+  /**
+   * Name of the facilitator that settled the payment, set by RoutingFacilitatorClient
+   */
+  facilitator?: string;
+  /**
+   * On-chain status of the transaction, kept up to date by a ConfirmationTracker
+   */
+  confirmation?: SettlementConfirmation;
+}
+
+/**
+ * Where a settlement transaction stands on-chain
+ */
+export enum ConfirmationStatus {
+  /** Not yet mined, or mined with fewer confirmations than required */
+  PENDING = "pending",
+  /** Reached the required number of confirmations */
+  CONFIRMED = "confirmed",
+  /** Mined, but the transfer reverted */
+  REVERTED = "reverted",
+  /** Mined, then dropped from the chain by a reorganization */
+  REORGED = "reorged",
+  /** Could not be confirmed before tracking gave up */
+  UNCONFIRMED = "unconfirmed",
+}
+
+export interface SettlementConfirmation {
+  status: ConfirmationStatus;
+  transaction?: string;
+  network: string;
+  blockNumber?: number;
+  blockHash?: string;
+  /**
+   * Blocks on top of and including the transaction's block
+   */
+  confirmations: number;
+  requiredConfirmations: number;
+}
+
+/**
+ * A scheme and network a facilitator can verify and settle
+ */
+export interface SupportedPaymentKind {
+  x402Version: number;
+  scheme: string;
+  network: string;
+}
+
+/**
+ * Body of a facilitator's GET /supported response
+ */
+export interface SupportedResponse {
+  kinds: SupportedPaymentKind[];
 }
 
 // A2A Types 
@@ -106,33 +168,98 @@ export enum TaskState {
   WORKING = "working",
   INPUT_REQUIRED = "input-required",
   COMPLETED = "completed",
+  CANCELED = "canceled",
   FAILED = "failed",
 }
 
 export interface TextPart {
   kind: "text";
   text: string;
+  metadata?: Record<string, any>;
 }
 
+/**
+ * File content inlined as base64
+ */
+export interface FileWithBytes {
+  bytes: string;
+  name?: string;
+  mimeType?: string;
+}
+
+/**
+ * File content the receiver fetches from a URI
+ */
+export interface FileWithUri {
+  uri: string;
+  name?: string;
+  mimeType?: string;
+}
+
+export interface FilePart {
+  kind: "file";
+  file: FileWithBytes | FileWithUri;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Structured JSON content, such as a form, a result set or x402 payment data
+ */
+export interface DataPart {
+  kind: "data";
+  data: Record<string, any>;
+  metadata?: Record<string, any>;
+}
+
+export type Part = TextPart | FilePart | DataPart;
+
 export interface Message {
+  kind?: "message";
   messageId: string;
   taskId?: string;
+  contextId?: string;
   role: "user" | "agent";
-  parts: TextPart[];
+  parts: Part[];
   metadata?: Record<string, any>;
+  /**
+   * URIs of the extensions that contributed to the message
+   */
+  extensions?: string[];
+}
+
+/**
+ * Output the agent produced for a task, such as a purchased file or a report
+ */
+export interface Artifact {
+  artifactId: string;
+  name?: string;
+  description?: string;
+  parts: Part[];
+  metadata?: Record<string, any>;
+  extensions?: string[];
 }
 
 export interface TaskStatus {
   state: TaskState;
   message?: Message;
+  /**
+   * ISO 8601 time of the last status change
+   */
+  timestamp?: string;
 }
 
 export interface Task {
+  kind?: "task";
   id: string;
   contextId?: string;
   status: TaskStatus;
   metadata?: Record<string, any>;
-  artifacts?: any[];
+  artifacts?: Artifact[];
+  /**
+   * Messages exchanged on the task, oldest first: the client's messages and
+   * the latest version of each agent status message
+   */
+  history?: Message[];
 }
 
 export interface RequestContext {
@@ -140,6 +267,12 @@ export interface RequestContext {
   contextId?: string;
   currentTask?: Task;
   message: Message;
+  /**
+   * Headers of the request that carried the message, with lowercased names.
+   * Executors read the client's X-A2A-Extensions from here; without headers
+   * every extension counts as activated.
+   */
+  headers?: Record<string, string>;
 }
 
 export interface EventQueue {
@@ -150,10 +283,73 @@ export interface AgentExecutor {
   execute(context: RequestContext, eventQueue: EventQueue): Promise<void>;
 }
 
+// A2A JSON-RPC Types
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method: string;
+  params?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
 // Facilitator Types
 export interface FacilitatorConfig {
   url: string;
   apiKey?: string;
+  /**
+   * How long a /supported response is reused, in milliseconds (defaults to 5 minutes)
+   */
+  supportedCacheTtlMs?: number;
+  /**
+   * Timeout of each attempt, in milliseconds (defaults to 10 seconds)
+   */
+  timeoutMs?: number;
+  /**
+   * Further attempts after a timeout, network error or 5xx/429 response (defaults to 2)
+   */
+  maxRetries?: number;
+  /**
+   * Delay before the first retry, doubled for each further one, in milliseconds (defaults to 250)
+   */
+  retryBackoffMs?: number;
+  /**
+   * Consecutive failed calls after which the circuit opens (defaults to 5)
+   */
+  circuitBreakerThreshold?: number;
+  /**
+   * How long an open circuit fails calls fast before letting one trial call through,
+   * in milliseconds (defaults to 30 seconds)
+   */
+  circuitBreakerResetMs?: number;
+}
+
+export enum CircuitState {
+  /** Calls go through */
+  CLOSED = "closed",
+  /** Calls fail fast without reaching the facilitator */
+  OPEN = "open",
+  /** One trial call decides whether to close or reopen */
+  HALF_OPEN = "half-open",
+}
+
+export interface FacilitatorHealth {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /**
+   * When the circuit last opened, in unix milliseconds
+   */
+  openedAt?: number;
+  lastError?: string;
 }
 
 export interface FacilitatorClient {
@@ -165,4 +361,153 @@ export interface FacilitatorClient {
     payload: PaymentPayload,
     requirements: PaymentRequirements
   ): Promise<SettleResponse>;
+  /**
+   * Kinds the facilitator can verify and settle. Facilitators without it are
+   * assumed to handle whatever is quoted.
+   */
+  supported?(): Promise<SupportedResponse>;
+  /**
+   * Circuit breaker state, for facilitators that track it; lets routers skip
+   * a facilitator that is down
+   */
+  getHealth?(): FacilitatorHealth;
+}
+
+// Signer Types
+export interface PaymentSigner {
+  /**
+   * Address the signatures recover to; used as the authorization's `from`
+   */
+  readonly address: string;
+  /**
+   * Signs EIP-712 typed data and returns the 65-byte hex signature
+   */
+  signTypedData(
+    domain: TypedDataDomain,
+    types: Record<string, TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string>;
+}
+
+// Payment Requirement Selection Types
+export interface PaymentSelectionContext {
+  /**
+   * Address of the paying wallet, for selectors that look at its balances
+   */
+  payer?: string;
+}
+
+export interface PaymentRequirementSelector {
+  /**
+   * Returns the eligible accepts entries, most preferred first.
+   * Entries left out of the result will not be paid.
+   */
+  rank(
+    accepts: PaymentRequirements[],
+    context: PaymentSelectionContext
+  ): Promise<PaymentRequirements[]>;
+}
+
+// Payment Requirements Store Types
+export interface PaymentRequirementsStore {
+  /**
+   * Returns the unexpired requirements stored for a task, if any
+   */
+  get(taskId: string): Promise<PaymentRequirements[] | undefined>;
+  /**
+   * Stores the accepts array for a task; each entry lives for its maxTimeoutSeconds
+   */
+  set(taskId: string, requirements: PaymentRequirements[]): Promise<void>;
+  delete(taskId: string): Promise<void>;
+  /**
+   * Removes every expired entry and returns how many tasks were dropped
+   */
+  expire(): Promise<number>;
+}
+
+// Nonce Ledger Types
+export interface NonceKey {
+  from: string;
+  nonce: string;
+  asset: string;
+  network: string;
+}
+
+export interface NonceLedger {
+  /**
+   * Atomically claims a nonce until validBefore (unix seconds).
+   * Returns false if the tuple is already claimed and not yet expired.
+   */
+  reserve(key: NonceKey, validBefore: number): Promise<boolean>;
+  /**
+   * Frees a claimed nonce, e.g. when the payment failed verification
+   */
+  release(key: NonceKey): Promise<void>;
+  /**
+   * Removes every entry whose validBefore has passed and returns how many were dropped
+   */
+  expire(): Promise<number>;
+}
+
+// Confirmation Tracker Types
+export interface ConfirmationTracker {
+  /**
+   * Follows a settled transaction until it is confirmed, reverted, reorged out
+   * or tracking gives up. onUpdate is called with every change, including the
+   * last; the last confirmation is also returned.
+   */
+  track(
+    settleResponse: SettleResponse,
+    onUpdate?: (confirmation: SettlementConfirmation) => void | Promise<void>
+  ): Promise<SettlementConfirmation>;
+}
+
+// Spend History Types
+export interface SpendRecord {
+  /** Identifies the record, so a payment that is not made can be released */
+  id: string;
+  /** When the payment was signed, in unix milliseconds */
+  timestamp: number;
+  network: string;
+  asset: string;
+  payTo: string;
+  /** Amount in the asset's smallest unit */
+  amount: string;
+  resource?: string;
+}
+
+export interface SpendHistory {
+  /**
+   * Appends a signed payment
+   */
+  record(entry: SpendRecord): Promise<void>;
+  /**
+   * Returns the payments signed at or after since (unix milliseconds)
+   */
+  list(since: number): Promise<SpendRecord[]>;
+  /**
+   * Removes the payment with this id and returns whether it was recorded
+   */
+  remove(id: string): Promise<boolean>;
+  /**
+   * Removes payments signed before the cutoff (unix milliseconds) and returns how many were dropped
+   */
+  expire(before: number): Promise<number>;
+}
+
+// Task Store Types
+export interface TaskStore {
+  /**
+   * Returns the stored task, if any
+   */
+  get(taskId: string): Promise<Task | undefined>;
+  /**
+   * Stores the task, replacing any earlier version
+   */
+  set(task: Task): Promise<void>;
+  /**
+   * Returns the tasks of a context, in the order they were first stored
+   */
+  listByContext(contextId: string): Promise<Task[]>;
+  delete(taskId: string): Promise<void>;
 }